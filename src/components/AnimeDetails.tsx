@@ -0,0 +1,38 @@
+import { motion } from "framer-motion";
+import { Languages, BookOpen } from "lucide-react";
+import type { AnimeInfo } from "@/lib/identify";
+
+interface AnimeDetailsProps {
+  anime: AnimeInfo;
+}
+
+export function AnimeDetails({ anime }: AnimeDetailsProps) {
+  if (anime.alternativeTitles.length === 0 && !anime.arc) {
+    return null;
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="border-t border-border p-4 md:px-6 bg-primary/5 space-y-2"
+    >
+      {anime.arc && (
+        <p className="flex items-center gap-2 text-sm text-foreground">
+          <BookOpen className="w-4 h-4 text-primary flex-shrink-0" />
+          <span className="text-muted-foreground">Arc:</span>
+          <span className="font-medium">{anime.arc}</span>
+        </p>
+      )}
+      {anime.alternativeTitles.length > 0 && (
+        <p className="flex items-start gap-2 text-sm text-foreground">
+          <Languages className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
+          <span>
+            <span className="text-muted-foreground">Also known as: </span>
+            {anime.alternativeTitles.join(" · ")}
+          </span>
+        </p>
+      )}
+    </motion.div>
+  );
+}
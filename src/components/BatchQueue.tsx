@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ListPlus, Loader2, CheckCircle2, XCircle, Clock, RotateCcw, X, Heart, Check, Link2, Layers } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { useMovieHistory } from "@/hooks/useMovieHistory";
+import type { BatchItem, BatchItemStatus } from "@/hooks/useBatchQueue";
+import { detectVideoSource, formatSourceList } from "@/lib/videoSources";
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  onAdd: (text: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onToggleConfirmed: (id: string, confirmed: boolean) => void;
+  onClearFinished: () => void;
+  onView: (item: BatchItem) => void;
+}
+
+const statusLabels: Record<BatchItemStatus, string> = {
+  pending: "Pending",
+  identifying: "Identifying",
+  done: "Done",
+  compilation: "Compilation",
+  failed: "Failed",
+};
+
+function StatusIcon({ status }: { status: BatchItemStatus }) {
+  switch (status) {
+    case "pending":
+      return <Clock className="w-4 h-4 text-muted-foreground" />;
+    case "identifying":
+      return <Loader2 className="w-4 h-4 text-primary animate-spin" />;
+    case "done":
+      return <CheckCircle2 className="w-4 h-4 text-primary" />;
+    case "compilation":
+      return <Layers className="w-4 h-4 text-primary" />;
+    case "failed":
+      return <XCircle className="w-4 h-4 text-destructive" />;
+  }
+}
+
+export function BatchQueue({
+  items,
+  onAdd,
+  onRetry,
+  onRemove,
+  onToggleConfirmed,
+  onClearFinished,
+  onView,
+}: BatchQueueProps) {
+  const [text, setText] = useState("");
+  const [justSaved, setJustSaved] = useState(0);
+  const { saveMovie } = useMovieHistory();
+
+  const confirmedItems = items.filter((item) => item.status === "done" && item.confirmed && item.result?.movie);
+  const finishedCount = items.filter((item) => item.status !== "pending" && item.status !== "identifying").length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (text.trim()) {
+      onAdd(text);
+      setText("");
+    }
+  };
+
+  const handleSaveConfirmed = () => {
+    for (const item of confirmedItems) {
+      const movie = item.result!.movie!;
+      saveMovie({
+        tmdbId: movie.tmdbId,
+        title: movie.title,
+        year: movie.year,
+        poster: movie.poster,
+        rating: movie.rating,
+        genres: movie.genres,
+        mediaType: movie.mediaType,
+        videoThumbnail: item.result?.videoThumbnail,
+        confidence: item.result?.matches?.[0]?.confidence,
+      });
+    }
+    setJustSaved(confirmedItems.length);
+    setTimeout(() => setJustSaved(0), 2000);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="w-full max-w-2xl mx-auto"
+    >
+      <form onSubmit={handleSubmit}>
+        <div className="relative group">
+          {/* Glow Effect */}
+          <div className="absolute -inset-0.5 bg-gradient-to-r from-primary/50 via-gold-glow/50 to-primary/50 rounded-2xl blur opacity-20 group-hover:opacity-40 group-focus-within:opacity-60 transition-opacity duration-300" />
+
+          <div className="relative flex items-start bg-card rounded-xl border border-border overflow-hidden">
+            <div className="flex items-center pl-4 pt-4 text-muted-foreground">
+              <ListPlus className="w-5 h-5" />
+            </div>
+            <Textarea
+              placeholder="Paste video links, one per line"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={4}
+              className="flex-1 resize-none border-0 bg-transparent text-foreground placeholder:text-muted-foreground focus-visible:ring-0 focus-visible:ring-offset-0 py-4 px-4 text-base"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-4">
+          <Button
+            type="submit"
+            disabled={!text.trim()}
+            className="bg-primary text-primary-foreground hover:bg-primary/90 px-6 py-5 rounded-lg glow-gold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ListPlus className="w-4 h-4 mr-2" />
+            Add to queue
+          </Button>
+        </div>
+      </form>
+
+      {items.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground mt-4">
+          Links are identified a couple at a time. Supports {formatSourceList()} links
+        </p>
+      ) : (
+        <div className="mt-6 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm text-muted-foreground">
+              {finishedCount} of {items.length} finished
+            </span>
+            <div className="flex items-center gap-2">
+              {finishedCount > 0 && (
+                <Button variant="ghost" size="sm" onClick={onClearFinished} className="text-muted-foreground">
+                  Clear finished
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSaveConfirmed}
+                disabled={confirmedItems.length === 0}
+                className="border-border hover:border-primary/50"
+              >
+                <AnimatePresence mode="wait">
+                  {justSaved > 0 ? (
+                    <motion.span key="check" initial={{ scale: 0 }} animate={{ scale: 1 }} exit={{ scale: 0 }} className="flex items-center gap-1.5">
+                      <Check className="w-4 h-4" />
+                      Saved {justSaved}
+                    </motion.span>
+                  ) : (
+                    <motion.span key="heart" initial={{ scale: 0 }} animate={{ scale: 1 }} exit={{ scale: 0 }} className="flex items-center gap-1.5">
+                      <Heart className="w-4 h-4" />
+                      Save {confirmedItems.length} confirmed
+                    </motion.span>
+                  )}
+                </AnimatePresence>
+              </Button>
+            </div>
+          </div>
+
+          <ul className="space-y-2">
+            <AnimatePresence initial={false}>
+              {items.map((item) => {
+                const SourceIcon = detectVideoSource(item.url)?.icon ?? Link2;
+                const movie = item.result?.movie;
+                const confidence = item.result?.matches?.[0]?.confidence;
+                const segmentCount = item.status === "compilation" ? item.result?.segments?.length ?? 0 : 0;
+
+                return (
+                  <motion.li
+                    key={item.id}
+                    layout
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="flex items-center gap-3 p-3 rounded-lg bg-card border border-border"
+                  >
+                    {item.status === "done" ? (
+                      <Checkbox
+                        checked={item.confirmed}
+                        onCheckedChange={(checked) => onToggleConfirmed(item.id, checked === true)}
+                        aria-label="Confirm this match"
+                      />
+                    ) : (
+                      <StatusIcon status={item.status} />
+                    )}
+
+                    <div className="flex-1 min-w-0">
+                      {movie ? (
+                        <button
+                          type="button"
+                          onClick={() => onView(item)}
+                          className="block max-w-full truncate text-left font-medium text-foreground hover:text-primary transition-colors"
+                        >
+                          {movie.title} {movie.year && <span className="text-muted-foreground">({movie.year})</span>}
+                          {confidence !== undefined && <span className="ml-2 text-xs text-primary">{confidence}%</span>}
+                        </button>
+                      ) : segmentCount > 0 ? (
+                        <button
+                          type="button"
+                          onClick={() => onView(item)}
+                          className="block max-w-full truncate text-left font-medium text-foreground hover:text-primary transition-colors"
+                        >
+                          Compilation of {segmentCount} movies
+                          <span className="ml-2 text-xs text-primary">View timeline</span>
+                        </button>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          {statusLabels[item.status]}
+                          {item.error && <span className="text-destructive"> — {item.error}</span>}
+                        </p>
+                      )}
+                      <p className="flex items-center gap-1.5 text-xs text-muted-foreground truncate">
+                        <SourceIcon className="w-3 h-3 flex-shrink-0" />
+                        <span className="truncate">{item.url}</span>
+                      </p>
+                    </div>
+
+                    {item.status === "failed" && (
+                      <Button variant="ghost" size="icon" onClick={() => onRetry(item.id)} className="text-muted-foreground hover:text-primary" aria-label="Retry">
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {item.status !== "identifying" && (
+                      <Button variant="ghost" size="icon" onClick={() => onRemove(item.id)} className="text-muted-foreground hover:text-destructive" aria-label="Remove">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </motion.li>
+                );
+              })}
+            </AnimatePresence>
+          </ul>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ChevronDown, Clapperboard, Film } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { MovieResult } from "@/components/MovieResult";
+import { formatTimestamp } from "@/lib/format";
+import type { CompilationSegment } from "@/lib/identify";
+
+interface CompilationTimelineProps {
+  segments: CompilationSegment[];
+  videoTitle?: string;
+  videoThumbnail?: string;
+  sourceLabel?: string;
+  detailedReasoning?: string;
+}
+
+// Segments without an end run until the next one starts; the last one gets a nominal length
+const LAST_SEGMENT_LENGTH = 60;
+
+export function CompilationTimeline({
+  segments,
+  videoTitle,
+  videoThumbnail,
+  sourceLabel,
+  detailedReasoning,
+}: CompilationTimelineProps) {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  const segmentEnd = (index: number) =>
+    segments[index].end ?? segments[index + 1]?.start ?? segments[index].start + LAST_SEGMENT_LENGTH;
+  const timelineStart = segments[0].start;
+  const timelineLength = Math.max(1, segmentEnd(segments.length - 1) - timelineStart);
+
+  const toggle = (index: number) => setExpandedIndex((current) => (current === index ? null : index));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 40 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, ease: "easeOut" }}
+      className="w-full max-w-4xl mx-auto space-y-6"
+    >
+      <div className="flex items-center gap-3">
+        <Clapperboard className="w-6 h-6 text-primary flex-shrink-0" />
+        <div className="min-w-0">
+          <h2 className="font-display text-2xl text-foreground truncate">{videoTitle || "Compilation"}</h2>
+          <p className="text-sm text-muted-foreground">
+            Compilation with {segments.length} movies{sourceLabel ? ` · ${sourceLabel}` : ""}
+          </p>
+        </div>
+      </div>
+
+      {detailedReasoning && <p className="text-sm text-foreground/80 leading-relaxed">{detailedReasoning}</p>}
+
+      {/* Timeline */}
+      <div className="relative h-10 rounded-lg bg-secondary/30 border border-border overflow-hidden">
+        {segments.map((segment, index) => (
+          <button
+            key={`${segment.start}-${segment.movie.tmdbId}`}
+            onClick={() => toggle(index)}
+            title={`${formatTimestamp(segment.start)} ${segment.movie.title}`}
+            style={{
+              left: `${((segment.start - timelineStart) / timelineLength) * 100}%`,
+              width: `${((segmentEnd(index) - segment.start) / timelineLength) * 100}%`,
+            }}
+            className={`absolute inset-y-0 border-r border-background transition-colors ${
+              expandedIndex === index ? "bg-primary" : index % 2 === 0 ? "bg-primary/40 hover:bg-primary/60" : "bg-primary/25 hover:bg-primary/60"
+            }`}
+          />
+        ))}
+      </div>
+
+      {/* Segments */}
+      <div className="space-y-3">
+        {segments.map((segment, index) => (
+          <div key={`${segment.start}-${segment.movie.tmdbId}`} className="rounded-xl border border-border bg-card overflow-hidden">
+            <button
+              onClick={() => toggle(index)}
+              className="w-full flex items-center gap-3 p-3 text-left hover:bg-secondary/30 transition-colors"
+            >
+              <span className="w-24 text-sm font-mono text-primary flex-shrink-0">
+                {formatTimestamp(segment.start)}–{formatTimestamp(segmentEnd(index))}
+              </span>
+              {segment.movie.poster ? (
+                <img src={segment.movie.poster} alt={segment.movie.title} className="w-8 h-12 object-cover rounded flex-shrink-0" />
+              ) : (
+                <Film className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+              )}
+              <span className="flex-1 min-w-0 truncate font-medium text-foreground">
+                {segment.movie.title} <span className="text-muted-foreground">({segment.movie.year})</span>
+              </span>
+              <Badge variant="secondary">{segment.confidence}%</Badge>
+              <ChevronDown
+                className={`w-4 h-4 text-muted-foreground transition-transform ${expandedIndex === index ? "rotate-180" : ""}`}
+              />
+            </button>
+
+            <AnimatePresence initial={false}>
+              {expandedIndex === index && (
+                <motion.div
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: "auto", opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="border-t border-border p-4"
+                >
+                  <MovieResult
+                    movie={segment.movie}
+                    videoThumbnail={videoThumbnail || ""}
+                    sourceLabel={sourceLabel}
+                    analyzedAt={segment.start}
+                    matches={[{ movie: segment.movie, confidence: segment.confidence, matchReasons: segment.matchReasons }]}
+                    streamingProviders={segment.streamingProviders}
+                    detailedReasoning={detailedReasoning}
+                  />
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
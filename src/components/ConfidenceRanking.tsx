@@ -1,5 +1,6 @@
 import { motion } from "framer-motion";
 import { Trophy, Medal } from "lucide-react";
+import type { MatchReason } from "@/lib/identify";
 
 interface MovieMatch {
   movie: {
@@ -9,7 +10,7 @@ interface MovieMatch {
     tmdbId: number;
   };
   confidence: number;
-  matchReasons: string[];
+  matchReasons: MatchReason[];
 }
 
 interface ConfidenceRankingProps {
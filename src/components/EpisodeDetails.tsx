@@ -0,0 +1,40 @@
+import { motion } from "framer-motion";
+import { Calendar, Tv } from "lucide-react";
+import type { EpisodeInfo } from "@/lib/identify";
+
+interface EpisodeDetailsProps {
+  episode: EpisodeInfo;
+}
+
+export function EpisodeDetails({ episode }: EpisodeDetailsProps) {
+  return (
+    <motion.div
+      key={`${episode.season}-${episode.episode}`}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="border-t border-border p-4 md:p-6 flex flex-col sm:flex-row gap-4"
+    >
+      {episode.still ? (
+        <img src={episode.still} alt={episode.title} className="w-full sm:w-56 aspect-video object-cover rounded-lg border border-border flex-shrink-0" />
+      ) : (
+        <div className="w-full sm:w-56 aspect-video rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+          <Tv className="w-8 h-8 text-muted-foreground" />
+        </div>
+      )}
+
+      <div className="min-w-0">
+        <p className="text-xs font-medium uppercase tracking-wide text-primary">
+          Season {episode.season} · Episode {episode.episode}
+        </p>
+        <h3 className="font-display text-xl text-foreground mt-1">{episode.title}</h3>
+        {episode.airDate && (
+          <p className="flex items-center gap-1.5 text-sm text-muted-foreground mt-1">
+            <Calendar className="w-4 h-4" />
+            Aired {episode.airDate}
+          </p>
+        )}
+        {episode.overview && <p className="text-sm text-foreground/80 leading-relaxed mt-3">{episode.overview}</p>}
+      </div>
+    </motion.div>
+  );
+}
@@ -1,16 +1,55 @@
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { ChevronDown, Lightbulb, Check } from "lucide-react";
+import { ChevronDown, Lightbulb, Check, Eye, Quote, UserCheck, UserX, ListVideo, MessageSquare } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { formatTimestamp } from "@/lib/format";
+import type { MatchReason } from "@/lib/identify";
+
+export interface SceneEvidence {
+  chapters: Array<{ start: number; end?: number; title: string; movieHint?: string }>;
+  timestampedComments: Array<{ time: number; text: string }>;
+}
 
 interface ExplainabilityPanelProps {
-  matchReasons: string[];
+  matchReasons: MatchReason[];
   detailedReasoning: string;
+  matchedQuote?: string;
+  searchedQuote?: string;
+  sceneEvidence?: SceneEvidence;
+  movieTitle?: string;
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+
+// Highlight the words of the film's actual line that also appear in what the user typed
+function highlightQuote(line: string, searched: string) {
+  const searchedWords = new Set(searched.split(/\s+/).map(normalizeWord).filter(Boolean));
+
+  return line.split(/(\s+)/).map((part, index) =>
+    searchedWords.has(normalizeWord(part)) ? (
+      <mark key={index} className="bg-primary/20 text-primary rounded px-0.5">{part}</mark>
+    ) : (
+      part
+    )
+  );
 }
 
-export function ExplainabilityPanel({ matchReasons, detailedReasoning }: ExplainabilityPanelProps) {
+export function ExplainabilityPanel({
+  matchReasons,
+  detailedReasoning,
+  matchedQuote,
+  searchedQuote,
+  sceneEvidence,
+  movieTitle,
+}: ExplainabilityPanelProps) {
   const [isOpen, setIsOpen] = useState(false);
 
+  // Evidence that names the movie currently shown is emphasized
+  const mentionsMovie = (text: string) =>
+    !!movieTitle && text.toLowerCase().includes(movieTitle.toLowerCase());
+  const chapters = sceneEvidence?.chapters ?? [];
+  const timestampedComments = sceneEvidence?.timestampedComments ?? [];
+
   return (
     <Collapsible open={isOpen} onOpenChange={setIsOpen}>
       <CollapsibleTrigger className="w-full">
@@ -47,6 +86,21 @@ export function ExplainabilityPanel({ matchReasons, detailedReasoning }: Explain
               className="overflow-hidden"
             >
               <div className="p-4 mt-2 rounded-xl bg-card border border-border">
+                {/* Matched Quote */}
+                {matchedQuote && (
+                  <div className="flex items-start gap-3 p-3 mb-4 rounded-lg bg-secondary/40 border border-border">
+                    <Quote className="w-4 h-4 text-primary mt-0.5 flex-shrink-0" />
+                    <div className="space-y-1">
+                      <p className="text-sm text-foreground italic">
+                        {searchedQuote ? highlightQuote(matchedQuote, searchedQuote) : matchedQuote}
+                      </p>
+                      {searchedQuote && (
+                        <p className="text-xs text-muted-foreground">You searched: "{searchedQuote}"</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {/* Match Reasons */}
                 <div className="space-y-2 mb-4">
                   {matchReasons.map((reason, index) => (
@@ -57,12 +111,74 @@ export function ExplainabilityPanel({ matchReasons, detailedReasoning }: Explain
                       transition={{ delay: index * 0.1 }}
                       className="flex items-start gap-2"
                     >
-                      <Check className="w-4 h-4 text-primary mt-0.5 flex-shrink-0" />
-                      <span className="text-sm text-foreground/80">{reason}</span>
+                      {reason.kind === "visual" ? (
+                        <Eye className="w-4 h-4 text-primary mt-0.5 flex-shrink-0" />
+                      ) : reason.kind === "cast_verified" ? (
+                        <UserCheck className="w-4 h-4 text-primary mt-0.5 flex-shrink-0" />
+                      ) : reason.kind === "cast_missing" ? (
+                        <UserX className="w-4 h-4 text-destructive mt-0.5 flex-shrink-0" />
+                      ) : (
+                        <Check className="w-4 h-4 text-primary mt-0.5 flex-shrink-0" />
+                      )}
+                      <span className="text-sm text-foreground/80">{reason.text}</span>
                     </motion.div>
                   ))}
                 </div>
 
+                {/* Scene Evidence */}
+                {(chapters.length > 0 || timestampedComments.length > 0) && (
+                  <div className="pt-4 mb-4 border-t border-border space-y-4">
+                    {chapters.length > 0 && (
+                      <div>
+                        <p className="flex items-center gap-2 text-xs font-medium text-muted-foreground mb-2">
+                          <ListVideo className="w-3.5 h-3.5" />
+                          Chapters
+                        </p>
+                        <ul className="space-y-1">
+                          {chapters.map((chapter, index) => (
+                            <li
+                              key={index}
+                              className={`flex gap-3 text-sm ${
+                                mentionsMovie(chapter.title) ? "text-primary" : "text-foreground/80"
+                              }`}
+                            >
+                              <span className="font-mono text-xs text-muted-foreground w-24 flex-shrink-0 pt-0.5">
+                                {formatTimestamp(chapter.start)}
+                                {chapter.end !== undefined && `–${formatTimestamp(chapter.end)}`}
+                              </span>
+                              <span>{chapter.title}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {timestampedComments.length > 0 && (
+                      <div>
+                        <p className="flex items-center gap-2 text-xs font-medium text-muted-foreground mb-2">
+                          <MessageSquare className="w-3.5 h-3.5" />
+                          Timestamped comments
+                        </p>
+                        <ul className="space-y-1">
+                          {timestampedComments.map((comment, index) => (
+                            <li
+                              key={index}
+                              className={`flex gap-3 text-sm ${
+                                mentionsMovie(comment.text) ? "text-primary" : "text-foreground/80"
+                              }`}
+                            >
+                              <span className="font-mono text-xs text-muted-foreground w-24 flex-shrink-0 pt-0.5">
+                                {formatTimestamp(comment.time)}
+                              </span>
+                              <span>{comment.text}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Detailed Reasoning */}
                 {detailedReasoning && (
                   <div className="pt-4 border-t border-border">
@@ -42,7 +42,7 @@ export function HeroSection() {
         transition={{ delay: 0.4 }}
         className="text-xl md:text-2xl text-muted-foreground max-w-2xl mx-auto mb-4"
       >
-        Identify any movie from a YouTube clip
+        Identify any movie from a video clip
       </motion.p>
 
       {/* Feature Pills */}
@@ -11,6 +11,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useMovieHistory } from "@/hooks/useMovieHistory";
+import { tmdbPageUrl } from "@/lib/identify";
 
 export function HistoryModal() {
   const [open, setOpen] = useState(false);
@@ -176,7 +177,7 @@ export function HistoryModal() {
                       className="relative group"
                     >
                       <a
-                        href={`https://www.themoviedb.org/movie/${movie.tmdbId}`}
+                        href={tmdbPageUrl(movie.tmdbId, movie.mediaType)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="block"
@@ -236,7 +237,7 @@ export function HistoryModal() {
                         {collectionMovies.map((movie) => (
                           <a
                             key={movie.id}
-                            href={`https://www.themoviedb.org/movie/${movie.tmdbId}`}
+                            href={tmdbPageUrl(movie.tmdbId, movie.mediaType)}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="flex-shrink-0"
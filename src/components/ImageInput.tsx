@@ -0,0 +1,148 @@
+import { useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { Search, ImagePlus, AlertCircle, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { resizeImageFile } from "@/lib/media";
+
+export interface ImageSubmission {
+  imageData: string;
+  thumbnail: string;
+  fileName: string;
+}
+
+interface ImageInputProps {
+  onSubmit: (image: ImageSubmission) => void;
+  isLoading: boolean;
+  error?: string | null;
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+export function ImageInput({ onSubmit, isLoading, error }: ImageInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [image, setImage] = useState<ImageSubmission | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError(null);
+
+    if (!file.type.startsWith("image/")) {
+      setFileError("Please choose an image file (PNG, JPEG or WebP)");
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      setFileError("Please choose an image under 10 MB");
+      return;
+    }
+
+    try {
+      // A large copy for the vision model, a small one for the result card and history
+      const [imageData, thumbnail] = await Promise.all([
+        resizeImageFile(file, 1280),
+        resizeImageFile(file, 320),
+      ]);
+      setImage({ imageData, thumbnail, fileName: file.name });
+    } catch (err) {
+      console.error("Error reading image:", err);
+      setFileError("Could not read this image. Please try another one.");
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (image && !isLoading) {
+      onSubmit(image);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="w-full max-w-2xl mx-auto"
+    >
+      <form onSubmit={handleSubmit} className="relative">
+        <div
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`relative rounded-xl border-2 border-dashed bg-card transition-colors ${
+            isDragging ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+          }`}
+        >
+          {image ? (
+            <div className="flex items-center gap-4 p-4">
+              <img src={image.thumbnail} alt="Selected screenshot" className="w-32 h-20 object-cover rounded-md border border-border" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-foreground truncate">{image.fileName}</p>
+                <p className="text-sm text-muted-foreground">Ready to identify</p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setImage(null)}
+                disabled={isLoading}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading}
+              className="w-full flex flex-col items-center gap-2 py-10 text-muted-foreground"
+            >
+              <ImagePlus className="w-8 h-8 text-primary" />
+              <span className="text-foreground font-medium">Drop a screenshot here or click to browse</span>
+              <span className="text-sm">PNG, JPEG or WebP up to 10 MB</span>
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/webp"
+            className="hidden"
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ""; }}
+          />
+        </div>
+
+        <div className="flex justify-center mt-4">
+          <Button
+            type="submit"
+            disabled={isLoading || !image}
+            className="bg-primary text-primary-foreground hover:bg-primary/90 px-6 py-5 rounded-lg glow-gold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Search className="w-4 h-4 mr-2" />
+            Identify
+          </Button>
+        </div>
+
+        {/* Error Message */}
+        {(fileError || error) && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-4 p-4 rounded-xl bg-destructive/10 border border-destructive/20"
+          >
+            <p className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {fileError || error}
+            </p>
+          </motion.div>
+        )}
+      </form>
+    </motion.div>
+  );
+}
@@ -1,14 +1,17 @@
-import { motion } from "framer-motion";
-import { Film } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Film, Check, Trophy } from "lucide-react";
+import type { TopCandidate } from "@/lib/identify";
 
-const loadingMessages = [
-  "Analyzing video metadata...",
-  "Identifying movie scenes...",
-  "Consulting the film database...",
-  "Almost there...",
-];
+interface LoadingStateProps {
+  message?: string;
+  // Progress messages streamed from the server, oldest first
+  events?: string[];
+  topCandidate?: TopCandidate | null;
+}
+
+const VISIBLE_EVENTS = 5;
 
-export function LoadingState() {
+export function LoadingState({ message, events = [], topCandidate }: LoadingStateProps) {
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -55,10 +58,52 @@ export function LoadingState() {
           transition={{ duration: 2, repeat: Infinity }}
           className="text-sm text-muted-foreground"
         >
-          This may take a few seconds
+          {message || "This may take a few seconds"}
         </motion.p>
       </motion.div>
 
+      {/* Best guess so far */}
+      <AnimatePresence mode="wait">
+        {topCandidate && (
+          <motion.div
+            key={topCandidate.title}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="flex items-center gap-2 mt-6 px-4 py-2 rounded-full bg-primary/10 border border-primary/20 text-sm"
+          >
+            <Trophy className="w-4 h-4 text-primary" />
+            <span className="text-muted-foreground">Top candidate:</span>
+            <span className="font-medium text-foreground">{topCandidate.title}</span>
+            <span className="text-primary">{topCandidate.confidence}%</span>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Live progress log */}
+      {events.length > 0 && (
+        <ul className="mt-6 space-y-1.5 w-full max-w-md">
+          {events.slice(-VISIBLE_EVENTS).map((event, index, visible) => {
+            const isLatest = index === visible.length - 1;
+            return (
+              <motion.li
+                key={`${events.length - visible.length + index}-${event}`}
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                className={`flex items-start gap-2 text-sm ${isLatest ? "text-foreground" : "text-muted-foreground"}`}
+              >
+                {isLatest ? (
+                  <span className="mt-1.5 w-2 h-2 rounded-full bg-primary animate-pulse flex-shrink-0" />
+                ) : (
+                  <Check className="w-4 h-4 text-primary flex-shrink-0" />
+                )}
+                <span className="min-w-0 break-words">{event}</span>
+              </motion.li>
+            );
+          })}
+        </ul>
+      )}
+
       {/* Progress Dots */}
       <div className="flex gap-2 mt-6">
         {[0, 1, 2].map((i) => (
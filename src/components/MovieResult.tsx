@@ -1,14 +1,21 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
-import { Star, Clock, Calendar, ExternalLink, Film } from "lucide-react";
+import { Star, Clock, Calendar, ExternalLink, Film, Timer, AlertTriangle, Tv, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ExplainabilityPanel } from "@/components/ExplainabilityPanel";
+import { toast } from "@/components/ui/sonner";
+import { ExplainabilityPanel, SceneEvidence } from "@/components/ExplainabilityPanel";
 import { ConfidenceRanking } from "@/components/ConfidenceRanking";
 import { WhereToWatch } from "@/components/WhereToWatch";
 import { SimilarMovies } from "@/components/SimilarMovies";
 import { SaveButton } from "@/components/SaveButton";
+import { VersionSwitcher } from "@/components/VersionSwitcher";
+import { EpisodeDetails } from "@/components/EpisodeDetails";
+import { AnimeDetails } from "@/components/AnimeDetails";
+import { ScenePosition } from "@/components/ScenePosition";
 import { useMovieHistory } from "@/hooks/useMovieHistory";
+import { formatTimestamp } from "@/lib/format";
+import { fetchMovieDetails, tmdbPageUrl, type AnimeInfo, type EpisodeInfo, type MatchReason, type MediaType, type MovieVersion, type SceneInfo } from "@/lib/identify";
 
 interface MovieData {
   title: string;
@@ -21,12 +28,19 @@ interface MovieData {
   trailer: string | null;
   tmdbId: number;
   aiReasoning: string;
+  runtimeMinutes?: number;
+  mediaType?: MediaType;
+  episode?: EpisodeInfo;
+  anime?: AnimeInfo;
 }
 
 interface MovieMatch {
   movie: MovieData;
   confidence: number;
-  matchReasons: string[];
+  matchReasons: MatchReason[];
+  matchedQuote?: string;
+  alternates?: MovieVersion[];
+  scene?: SceneInfo;
 }
 
 interface StreamingProvider {
@@ -41,30 +55,89 @@ interface SimilarMovie {
   title: string;
   poster: string;
   year: string;
+  mediaType?: MediaType;
+}
+
+// A version the user switched to, shown with its own providers and similar titles
+interface VersionOverride {
+  movie: MovieData;
+  streamingProviders: StreamingProvider[];
+  similarMovies: SimilarMovie[];
 }
 
 interface MovieResultProps {
   movie: MovieData;
   videoThumbnail: string;
+  videoFrames?: string[];
+  sourceLabel?: string;
+  searchQuery?: string;
+  analyzedAt?: number;
+  sceneEvidence?: SceneEvidence;
   matches?: MovieMatch[];
   streamingProviders?: StreamingProvider[];
   similarMovies?: SimilarMovie[];
   detailedReasoning?: string;
+  mode?: "heuristic";
 }
 
 export function MovieResult({ 
   movie: initialMovie, 
   videoThumbnail, 
+  videoFrames = [],
+  sourceLabel,
+  searchQuery,
+  analyzedAt,
+  sceneEvidence,
   matches = [],
   streamingProviders = [],
   similarMovies = [],
   detailedReasoning = "",
+  mode,
 }: MovieResultProps) {
   const [selectedIndex, setSelectedIndex] = useState(0);
+  // Versions the user switched to, keyed by match index
+  const [versionOverrides, setVersionOverrides] = useState<Record<number, VersionOverride>>({});
+  const [loadingVersionId, setLoadingVersionId] = useState<number | null>(null);
   const { addToHistory } = useMovieHistory();
   
-  const currentMatch = matches[selectedIndex] || { movie: initialMovie, confidence: 100, matchReasons: [] };
-  const movie = currentMatch.movie;
+  const currentMatch: MovieMatch = matches[selectedIndex] || { movie: initialMovie, confidence: 100, matchReasons: [] };
+  const override = versionOverrides[selectedIndex];
+  const movie = override?.movie ?? currentMatch.movie;
+  const versions: MovieVersion[] = currentMatch.alternates?.length
+    ? [
+        {
+          tmdbId: currentMatch.movie.tmdbId,
+          title: currentMatch.movie.title,
+          year: currentMatch.movie.year,
+          poster: currentMatch.movie.poster,
+          mediaType: currentMatch.movie.mediaType,
+        },
+        ...currentMatch.alternates,
+      ]
+    : [];
+
+  const handleSelectVersion = async (version: MovieVersion) => {
+    if (version.tmdbId === currentMatch.movie.tmdbId) {
+      setVersionOverrides(({ [selectedIndex]: _removed, ...rest }) => rest);
+      return;
+    }
+
+    setLoadingVersionId(version.tmdbId);
+    try {
+      const details = await fetchMovieDetails(version.tmdbId, version.mediaType);
+      setVersionOverrides((prev) => ({
+        ...prev,
+        [selectedIndex]: { ...details, movie: { ...details.movie, aiReasoning: currentMatch.movie.aiReasoning } },
+      }));
+    } catch (error) {
+      // The switcher stays on the version already shown
+      toast.error(`Could not load ${version.title} (${version.year})`, {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setLoadingVersionId(null);
+    }
+  };
 
   // Add to history on mount
   useEffect(() => {
@@ -77,6 +150,7 @@ export function MovieResult({
       genres: initialMovie.genres,
       videoThumbnail,
       confidence: matches[0]?.confidence,
+      mediaType: initialMovie.mediaType,
     });
   }, [initialMovie.tmdbId]);
 
@@ -87,6 +161,17 @@ export function MovieResult({
       transition={{ duration: 0.6, ease: "easeOut" }}
       className="w-full max-w-4xl mx-auto space-y-6"
     >
+      {/* Degraded Mode Notice */}
+      {mode === "heuristic" && (
+        <div className="flex items-start gap-3 p-4 rounded-xl bg-destructive/10 border border-destructive/20">
+          <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-foreground">
+            AI identification is unavailable right now, so these matches come from a keyword search of the
+            video's title, hashtags and comments. They may be less accurate than usual.
+          </p>
+        </div>
+      )}
+
       {/* Confidence Ranking */}
       {matches.length > 1 && (
         <ConfidenceRanking
@@ -96,6 +181,14 @@ export function MovieResult({
         />
       )}
 
+      {/* Other Versions */}
+      <VersionSwitcher
+        versions={versions}
+        selectedId={movie.tmdbId}
+        loadingId={loadingVersionId}
+        onSelect={handleSelectVersion}
+      />
+
       {/* Main Card */}
       <div className="card-elevated overflow-hidden">
         <div className="flex flex-col md:flex-row">
@@ -122,6 +215,17 @@ export function MovieResult({
             className="flex-1 p-6 md:p-8"
           >
             <div className="mb-4">
+              {movie.anime ? (
+                <Badge variant="outline" className="mb-2 border-primary/40 text-primary">
+                  <Sparkles className="w-3 h-3 mr-1" />
+                  {movie.mediaType === "tv" ? "Anime Series" : "Anime Film"}
+                </Badge>
+              ) : movie.mediaType === "tv" && (
+                <Badge variant="outline" className="mb-2 border-primary/40 text-primary">
+                  <Tv className="w-3 h-3 mr-1" />
+                  TV Series
+                </Badge>
+              )}
               <h2 className="font-display text-3xl md:text-4xl font-bold text-gradient-gold mb-2">
                 {movie.title}
               </h2>
@@ -151,6 +255,7 @@ export function MovieResult({
                 rating: movie.rating,
                 genres: movie.genres,
                 videoThumbnail,
+                mediaType: movie.mediaType,
               }} />
               {movie.trailer && (
                 <Button asChild className="bg-primary text-primary-foreground hover:bg-primary/90 glow-gold">
@@ -160,7 +265,7 @@ export function MovieResult({
                 </Button>
               )}
               <Button asChild variant="outline" className="border-border hover:bg-secondary">
-                <a href={`https://www.themoviedb.org/movie/${movie.tmdbId}`} target="_blank" rel="noopener noreferrer">
+                <a href={tmdbPageUrl(movie.tmdbId, movie.mediaType)} target="_blank" rel="noopener noreferrer">
                   View on TMDB
                 </a>
               </Button>
@@ -168,22 +273,58 @@ export function MovieResult({
           </motion.div>
         </div>
 
-        <div className="border-t border-border p-4 bg-secondary/30">
-          <p className="text-xs text-muted-foreground mb-2">Analyzed from:</p>
-          <img src={videoThumbnail} alt="Video thumbnail" className="w-32 h-18 object-cover rounded-md border border-border" />
-        </div>
+        {movie.anime && <AnimeDetails anime={movie.anime} />}
+
+        {movie.episode && <EpisodeDetails episode={movie.episode} />}
+
+        {videoFrames.length > 0 ? (
+          <div className="border-t border-border p-4 bg-secondary/30">
+            <p className="text-xs text-muted-foreground mb-2">
+              Analyzed from {videoFrames.length} sampled frames{sourceLabel ? ` of a ${sourceLabel.toLowerCase()}` : ""}:
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {videoFrames.map((frame, index) => (
+                <img key={index} src={frame} alt={`Sampled frame ${index + 1}`} className="w-24 h-14 object-cover rounded-md border border-border" />
+              ))}
+            </div>
+          </div>
+        ) : videoThumbnail && (
+          <div className="border-t border-border p-4 bg-secondary/30">
+            <p className="text-xs text-muted-foreground mb-2">Analyzed from{sourceLabel ? ` ${sourceLabel}` : ""}:</p>
+            <img src={videoThumbnail} alt="Video thumbnail" className="w-32 h-18 object-cover rounded-md border border-border" />
+          </div>
+        )}
+
+        {analyzedAt !== undefined && (
+          <div className="border-t border-border px-4 py-3 bg-secondary/30">
+            <span className="flex items-center gap-1.5 text-sm text-primary">
+              <Timer className="w-4 h-4" />
+              Analyzed at {formatTimestamp(analyzedAt)}
+            </span>
+          </div>
+        )}
       </div>
 
+      {/* Scene Position */}
+      {currentMatch.scene && <ScenePosition scene={currentMatch.scene} runtimeMinutes={movie.runtimeMinutes} />}
+
       {/* Explainability Panel */}
       {currentMatch.matchReasons.length > 0 && (
-        <ExplainabilityPanel matchReasons={currentMatch.matchReasons} detailedReasoning={detailedReasoning} />
+        <ExplainabilityPanel
+          matchReasons={currentMatch.matchReasons}
+          detailedReasoning={detailedReasoning}
+          matchedQuote={currentMatch.matchedQuote}
+          searchedQuote={currentMatch.matchedQuote ? searchQuery : undefined}
+          sceneEvidence={sceneEvidence}
+          movieTitle={movie.title}
+        />
       )}
 
       {/* Where to Watch */}
-      <WhereToWatch providers={streamingProviders} movieTitle={movie.title} />
+      <WhereToWatch providers={override?.streamingProviders ?? streamingProviders} movieTitle={movie.title} />
 
       {/* Similar Movies */}
-      <SimilarMovies movies={similarMovies} />
+      <SimilarMovies movies={override?.similarMovies ?? similarMovies} />
     </motion.div>
   );
 }
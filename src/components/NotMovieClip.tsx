@@ -0,0 +1,53 @@
+import { motion } from "framer-motion";
+import { Gamepad2, HelpCircle, Music, Video, type LucideIcon } from "lucide-react";
+import { contentTypeLabels, type ContentType } from "@/lib/identify";
+
+interface NotMovieClipProps {
+  contentType: ContentType;
+  detailedReasoning?: string;
+  videoThumbnail?: string;
+  sourceLabel?: string;
+}
+
+const contentTypeIcons: Partial<Record<ContentType, LucideIcon>> = {
+  "music video": Music,
+  game: Gamepad2,
+  "original content": Video,
+};
+
+export function NotMovieClip({ contentType, detailedReasoning, videoThumbnail, sourceLabel }: NotMovieClipProps) {
+  const Icon = contentTypeIcons[contentType] ?? HelpCircle;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 40 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, ease: "easeOut" }}
+      className="w-full max-w-2xl mx-auto card-elevated overflow-hidden"
+    >
+      <div className="p-6 md:p-8 text-center">
+        <div className="inline-flex p-4 rounded-full bg-secondary/50 border border-border mb-4">
+          <Icon className="w-8 h-8 text-primary" />
+        </div>
+        <h2 className="font-display text-2xl md:text-3xl text-foreground mb-2">
+          This doesn't look like a movie clip
+        </h2>
+        <p className="text-muted-foreground">
+          Classified as <span className="text-primary font-medium">{contentTypeLabels[contentType].toLowerCase()}</span>
+          {sourceLabel ? ` on ${sourceLabel}` : ""}, so there is no movie or show to match it to.
+        </p>
+        {detailedReasoning && (
+          <p className="mt-6 text-sm text-foreground/80 leading-relaxed text-left p-4 rounded-lg bg-secondary/30 border border-border">
+            {detailedReasoning}
+          </p>
+        )}
+      </div>
+
+      {videoThumbnail && (
+        <div className="border-t border-border p-4 bg-secondary/30 flex justify-center">
+          <img src={videoThumbnail} alt="Video thumbnail" className="w-48 aspect-video object-cover rounded-md border border-border" />
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,115 @@
+import { motion } from "framer-motion";
+import { Link } from "react-router-dom";
+import { AlertCircle, Ban, ChevronRight, Clapperboard, Film, ListVideo } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { contentTypeLabels, isCompilation, isNotMovieClip, type PlaylistResponse } from "@/lib/identify";
+
+interface PlaylistResultsProps {
+  playlist: PlaylistResponse;
+  // While a job is still running, playlist.items only holds the videos finished so far
+  totalItems?: number;
+}
+
+export function PlaylistResults({ playlist, totalItems }: PlaylistResultsProps) {
+  const identifiedCount = playlist.items.filter((item) => item.result?.movie).length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-5xl mx-auto space-y-6"
+    >
+      <div className="flex items-center gap-3">
+        <ListVideo className="w-6 h-6 text-primary flex-shrink-0" />
+        <div className="min-w-0">
+          <h2 className="font-display text-2xl text-foreground truncate">{playlist.title || "YouTube playlist"}</h2>
+          <p className="text-sm text-muted-foreground">
+            Identified {identifiedCount} of {totalItems ?? playlist.items.length} videos
+          </p>
+        </div>
+      </div>
+
+      <div className="rounded-xl border border-border bg-card overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">#</TableHead>
+              <TableHead>Video</TableHead>
+              <TableHead>Best match</TableHead>
+              <TableHead className="w-28 text-right">Confidence</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {playlist.items.map((item, index) => {
+              const movie = item.result?.movie;
+              const confidence = item.result?.matches?.[0]?.confidence;
+              const compilation = item.result !== undefined && isCompilation(item.result);
+
+              return (
+                <TableRow key={item.videoId}>
+                  <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                  <TableCell>
+                    <a
+                      href={item.videoUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-3 min-w-0 hover:text-primary transition-colors"
+                    >
+                      <img src={item.thumbnail} alt="" className="w-24 aspect-video object-cover rounded-md border border-border flex-shrink-0" />
+                      <span className="line-clamp-2">{item.title || item.videoId}</span>
+                    </a>
+                  </TableCell>
+                  <TableCell>
+                    {movie ? (
+                      <div className="flex items-center gap-3">
+                        {movie.poster ? (
+                          <img src={movie.poster} alt={movie.title} className="w-8 h-12 object-cover rounded flex-shrink-0" />
+                        ) : (
+                          <Film className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                        )}
+                        <span className="font-medium text-foreground">
+                          {movie.title} {movie.year && <span className="text-muted-foreground">({movie.year})</span>}
+                        </span>
+                      </div>
+                    ) : compilation ? (
+                      <span className="flex items-center gap-2 text-sm text-foreground">
+                        <Clapperboard className="w-4 h-4 text-primary flex-shrink-0" />
+                        Compilation: {item.result.segments!.map((segment) => segment.movie.title).join(", ")}
+                      </span>
+                    ) : item.result && isNotMovieClip(item.result) ? (
+                      <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Ban className="w-4 h-4 flex-shrink-0" />
+                        Not a movie clip · {contentTypeLabels[item.result.contentType!]}
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-2 text-sm text-destructive">
+                        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                        {item.error || "Could not identify this video"}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {confidence !== undefined && <Badge variant="secondary">{confidence}%</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {(movie || compilation) && (
+                      <Link
+                        to={`?video=${item.videoId}`}
+                        className="inline-flex items-center text-sm text-primary hover:text-primary/80 transition-colors"
+                      >
+                        Details
+                        <ChevronRight className="w-4 h-4" />
+                      </Link>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,81 @@
+import { motion } from "framer-motion";
+import { MapPin } from "lucide-react";
+import type { SceneInfo } from "@/lib/identify";
+
+interface ScenePositionProps {
+  scene: SceneInfo;
+  runtimeMinutes?: number;
+}
+
+const actLabels: Record<1 | 2 | 3, string> = {
+  1: "Act 1 · Setup",
+  2: "Act 2 · Confrontation",
+  3: "Act 3 · Finale",
+};
+
+// Three-act split used to shade the runtime bar: the middle act takes half the film
+const ACT_BOUNDARIES = [0, 0.25, 0.75, 1];
+
+function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h > 0 ? `${h}h ${String(m).padStart(2, "0")}m` : `${m}m`;
+}
+
+export function ScenePosition({ scene, runtimeMinutes }: ScenePositionProps) {
+  const position = scene.minute !== undefined && runtimeMinutes ? Math.min(1, scene.minute / runtimeMinutes) : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="p-4 rounded-xl bg-secondary/30 border border-border"
+    >
+      <div className="flex items-center gap-3 mb-3">
+        <div className="p-2 rounded-lg bg-primary/10">
+          <MapPin className="w-4 h-4 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-medium text-foreground">The Scene</h3>
+          <p className="text-xs text-muted-foreground">
+            {[
+              scene.minute !== undefined ? `About ${formatMinutes(scene.minute)} in` : null,
+              scene.act ? actLabels[scene.act] : null,
+            ].filter(Boolean).join(" · ") || "Position in the movie unknown"}
+          </p>
+        </div>
+      </div>
+
+      <p className="text-sm text-foreground/80 leading-relaxed mb-4">{scene.description}</p>
+
+      {runtimeMinutes && (position !== null || scene.act) && (
+        <div>
+          <div className="relative h-3 rounded-full bg-muted overflow-hidden">
+            {[1, 2, 3].map((act) => (
+              <div
+                key={act}
+                style={{
+                  left: `${ACT_BOUNDARIES[act - 1] * 100}%`,
+                  width: `${(ACT_BOUNDARIES[act] - ACT_BOUNDARIES[act - 1]) * 100}%`,
+                }}
+                className={`absolute inset-y-0 border-r border-background ${
+                  scene.act === act ? "bg-primary/40" : "bg-secondary"
+                }`}
+              />
+            ))}
+            {position !== null && (
+              <div
+                style={{ left: `${position * 100}%` }}
+                className="absolute inset-y-0 w-1 -ml-0.5 rounded-full bg-primary glow-gold"
+              />
+            )}
+          </div>
+          <div className="flex justify-between mt-1 text-xs text-muted-foreground">
+            <span>0m</span>
+            <span>{formatMinutes(runtimeMinutes)}</span>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -1,11 +1,13 @@
 import { motion } from "framer-motion";
 import { Sparkles, Film, ExternalLink } from "lucide-react";
+import { tmdbPageUrl, type MediaType } from "@/lib/identify";
 
 interface SimilarMovie {
   id: number;
   title: string;
   poster: string;
   year: string;
+  mediaType?: MediaType;
 }
 
 interface SimilarMoviesProps {
@@ -29,7 +31,9 @@ export function SimilarMovies({ movies }: SimilarMoviesProps) {
           <Sparkles className="w-4 h-4 text-primary" />
         </div>
         <div>
-          <h3 className="font-medium text-foreground">Similar Movies</h3>
+          <h3 className="font-medium text-foreground">
+            {movies.every((movie) => movie.mediaType === "tv") ? "Similar Shows" : "Similar Movies"}
+          </h3>
           <p className="text-xs text-muted-foreground">
             You might also enjoy these
           </p>
@@ -40,7 +44,7 @@ export function SimilarMovies({ movies }: SimilarMoviesProps) {
         {movies.map((movie, index) => (
           <motion.a
             key={movie.id}
-            href={`https://www.themoviedb.org/movie/${movie.id}`}
+            href={tmdbPageUrl(movie.id, movie.mediaType)}
             target="_blank"
             rel="noopener noreferrer"
             initial={{ opacity: 0, scale: 0.8 }}
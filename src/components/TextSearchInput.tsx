@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Search, AlertCircle, type LucideIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+interface TextSearchInputProps {
+  onSubmit: (text: string) => void;
+  isLoading: boolean;
+  error?: string | null;
+  icon: LucideIcon;
+  placeholder: string;
+  helperText: string;
+  maxLength: number;
+}
+
+export function TextSearchInput({
+  onSubmit,
+  isLoading,
+  error,
+  icon: Icon,
+  placeholder,
+  helperText,
+  maxLength,
+}: TextSearchInputProps) {
+  const [text, setText] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (text.trim() && !isLoading) {
+      onSubmit(text.trim());
+    }
+  };
+
+  // Enter submits, Shift+Enter inserts a new line
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      handleSubmit(e);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="w-full max-w-2xl mx-auto"
+    >
+      <form onSubmit={handleSubmit} className="relative">
+        <div className="relative group">
+          {/* Glow Effect */}
+          <div className="absolute -inset-0.5 bg-gradient-to-r from-primary/50 via-gold-glow/50 to-primary/50 rounded-2xl blur opacity-20 group-hover:opacity-40 group-focus-within:opacity-60 transition-opacity duration-300" />
+
+          <div className="relative flex items-start bg-card rounded-xl border border-border overflow-hidden">
+            <div className="flex items-center pl-4 pt-4 text-muted-foreground">
+              <Icon className="w-5 h-5" />
+            </div>
+            <Textarea
+              placeholder={placeholder}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={handleKeyDown}
+              maxLength={maxLength}
+              disabled={isLoading}
+              rows={3}
+              className="flex-1 resize-none border-0 bg-transparent text-foreground placeholder:text-muted-foreground focus-visible:ring-0 focus-visible:ring-offset-0 py-4 px-4 text-base"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mt-4">
+          <span className="text-xs text-muted-foreground">
+            {text.length}/{maxLength}
+          </span>
+          <Button
+            type="submit"
+            disabled={isLoading || !text.trim()}
+            className="bg-primary text-primary-foreground hover:bg-primary/90 px-6 py-5 rounded-lg glow-gold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Search className="w-4 h-4 mr-2" />
+            Identify
+          </Button>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-4 p-4 rounded-xl bg-destructive/10 border border-destructive/20"
+          >
+            <p className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </p>
+          </motion.div>
+        )}
+      </form>
+
+      {/* Helper Text */}
+      <p className="text-center text-sm text-muted-foreground mt-4">{helperText}</p>
+    </motion.div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { Search, Youtube, AlertCircle } from "lucide-react";
+import { Search, Link2, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { detectVideoSource, formatSourceList } from "@/lib/videoSources";
 
 interface UrlInputProps {
   onSubmit: (url: string) => void;
@@ -20,11 +21,11 @@ export function UrlInput({ onSubmit, isLoading, error }: UrlInputProps) {
     }
   };
 
-  const isValidYouTubeUrl = (url: string) => {
-    return /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/shorts\/)/.test(url);
-  };
+  const source = detectVideoSource(url);
+  const SourceIcon = source?.icon ?? Link2;
+  const supportedLabels = formatSourceList();
 
-  const showUrlWarning = url.length > 0 && !isValidYouTubeUrl(url);
+  const showUrlWarning = url.length > 0 && !source;
 
   return (
     <motion.div
@@ -41,12 +42,13 @@ export function UrlInput({ onSubmit, isLoading, error }: UrlInputProps) {
           
           {/* Input */}
           <div className="relative flex items-center bg-card rounded-xl border border-border overflow-hidden">
-            <div className="flex items-center pl-4 text-muted-foreground">
-              <Youtube className="w-5 h-5" />
+            <div className={`flex items-center gap-2 pl-4 ${source ? "text-primary" : "text-muted-foreground"}`}>
+              <SourceIcon className="w-5 h-5" />
+              {source && <span className="text-xs font-medium">{source.label}</span>}
             </div>
             <Input
               type="url"
-              placeholder="Paste a YouTube video link..."
+              placeholder="Paste a video link..."
               value={url}
               onChange={(e) => setUrl(e.target.value)}
               disabled={isLoading}
@@ -73,7 +75,7 @@ export function UrlInput({ onSubmit, isLoading, error }: UrlInputProps) {
             className="flex items-center gap-2 mt-3 text-sm text-gold-dim"
           >
             <AlertCircle className="w-4 h-4" />
-            Please enter a valid YouTube URL
+            Please enter a {supportedLabels} video URL
           </motion.p>
         )}
 
@@ -99,7 +101,7 @@ export function UrlInput({ onSubmit, isLoading, error }: UrlInputProps) {
         transition={{ delay: 0.5 }}
         className="text-center text-sm text-muted-foreground mt-4"
       >
-        Supports YouTube videos, shorts, and embeds
+        Supports {supportedLabels} links
       </motion.p>
     </motion.div>
   );
@@ -0,0 +1,58 @@
+import { motion } from "framer-motion";
+import { Film, Layers, Loader2 } from "lucide-react";
+import type { MovieVersion } from "@/lib/identify";
+
+interface VersionSwitcherProps {
+  versions: MovieVersion[];
+  selectedId: number;
+  loadingId: number | null;
+  onSelect: (version: MovieVersion) => void;
+}
+
+export function VersionSwitcher({ versions, selectedId, loadingId, onSelect }: VersionSwitcherProps) {
+  if (versions.length < 2) {
+    return null;
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="p-4 rounded-xl bg-secondary/30 border border-border"
+    >
+      <div className="flex items-center gap-2 mb-3">
+        <Layers className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-medium text-muted-foreground">
+          Other versions of this title
+        </h3>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {versions.map((version) => (
+          <button
+            key={version.tmdbId}
+            onClick={() => onSelect(version)}
+            disabled={loadingId !== null}
+            className={`flex items-center gap-2 pr-3 rounded-lg border overflow-hidden transition-all disabled:cursor-wait ${
+              selectedId === version.tmdbId
+                ? "border-primary bg-primary/10"
+                : "border-border bg-card hover:border-primary/50"
+            }`}
+          >
+            {version.poster ? (
+              <img src={version.poster} alt="" className="w-8 h-12 object-cover" />
+            ) : (
+              <div className="w-8 h-12 bg-muted flex items-center justify-center">
+                <Film className="w-4 h-4 text-muted-foreground" />
+              </div>
+            )}
+            <span className="text-sm text-foreground">
+              {version.title} <span className="text-muted-foreground">({version.year})</span>
+            </span>
+            {loadingId === version.tmdbId && <Loader2 className="w-4 h-4 text-primary animate-spin" />}
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { Search, FileVideo, AlertCircle, X, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { sampleVideoFrames } from "@/lib/media";
+
+export interface VideoFileSubmission {
+  frames: string[];
+  thumbnails: string[];
+  fileName: string;
+}
+
+interface VideoFileInputProps {
+  onSubmit: (video: VideoFileSubmission) => void;
+  isLoading: boolean;
+  error?: string | null;
+}
+
+const FRAME_COUNT = 6;
+const ACCEPTED_TYPES = ["video/mp4", "video/webm"];
+
+export function VideoFileInput({ onSubmit, isLoading, error }: VideoFileInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [video, setVideo] = useState<VideoFileSubmission | null>(null);
+  const [isSampling, setIsSampling] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError(null);
+    setVideo(null);
+
+    if (!ACCEPTED_TYPES.includes(file.type)) {
+      setFileError("Please choose an MP4 or WebM video");
+      return;
+    }
+
+    setIsSampling(true);
+    try {
+      const { frames, thumbnails } = await sampleVideoFrames(file, FRAME_COUNT, 768, 240);
+      setVideo({ frames, thumbnails, fileName: file.name });
+    } catch (err) {
+      console.error("Error sampling video:", err);
+      setFileError(err instanceof Error ? err.message : "Could not read frames from this video");
+    } finally {
+      setIsSampling(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (video && !isLoading) {
+      onSubmit(video);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="w-full max-w-2xl mx-auto"
+    >
+      <form onSubmit={handleSubmit} className="relative">
+        <div
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`relative rounded-xl border-2 border-dashed bg-card transition-colors ${
+            isDragging ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+          }`}
+        >
+          {isSampling ? (
+            <div className="flex flex-col items-center gap-2 py-10 text-muted-foreground">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+              <span className="text-sm">Sampling keyframes...</span>
+            </div>
+          ) : video ? (
+            <div className="p-4 space-y-3">
+              <div className="flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground truncate">{video.fileName}</p>
+                  <p className="text-sm text-muted-foreground">{video.frames.length} frames sampled, ready to identify</p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setVideo(null)}
+                  disabled={isLoading}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+                {video.thumbnails.map((thumbnail, index) => (
+                  <img
+                    key={index}
+                    src={thumbnail}
+                    alt={`Frame ${index + 1}`}
+                    className="w-full aspect-video object-cover rounded-md border border-border"
+                  />
+                ))}
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading}
+              className="w-full flex flex-col items-center gap-2 py-10 text-muted-foreground"
+            >
+              <FileVideo className="w-8 h-8 text-primary" />
+              <span className="text-foreground font-medium">Drop a video file here or click to browse</span>
+              <span className="text-sm">MP4 or WebM — frames are sampled in your browser, the video is never uploaded</span>
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_TYPES.join(",")}
+            className="hidden"
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ""; }}
+          />
+        </div>
+
+        <div className="flex justify-center mt-4">
+          <Button
+            type="submit"
+            disabled={isLoading || isSampling || !video}
+            className="bg-primary text-primary-foreground hover:bg-primary/90 px-6 py-5 rounded-lg glow-gold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Search className="w-4 h-4 mr-2" />
+            Identify
+          </Button>
+        </div>
+
+        {/* Error Message */}
+        {(fileError || error) && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-4 p-4 rounded-xl bg-destructive/10 border border-destructive/20"
+          >
+            <p className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {fileError || error}
+            </p>
+          </motion.div>
+        )}
+      </form>
+    </motion.div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from "react";
+import { contentTypeLabels, invokeIdentify, isCompilation, isNotMovieClip, type IdentifyResponse } from "@/lib/identify";
+import { detectVideoSource, extractPlaylistId } from "@/lib/videoSources";
+
+// "compilation" items finished as a timeline of several movies and open in the timeline view
+export type BatchItemStatus = "pending" | "identifying" | "done" | "compilation" | "failed";
+
+export interface BatchItem {
+  id: string;
+  url: string;
+  status: BatchItemStatus;
+  result?: IdentifyResponse;
+  error?: string;
+  confirmed: boolean;
+}
+
+// Links identified at the same time; the rest wait their turn
+const BATCH_CONCURRENCY = 2;
+
+// Reject links the edge function cannot handle before they take a slot in the queue
+function validateBatchUrl(url: string): string | null {
+  if (extractPlaylistId(url)) return "Playlists are identified from the Video link tab";
+  if (!detectVideoSource(url)) return "Unsupported link";
+  return null;
+}
+
+export function useBatchQueue() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const identifyItem = useCallback(async (item: BatchItem) => {
+    updateItem(item.id, { status: "identifying", error: undefined });
+
+    try {
+      const data = await invokeIdentify({ videoUrl: item.url });
+      if (data?.movie) {
+        updateItem(item.id, { status: "done", result: data });
+      } else if (data && isCompilation(data)) {
+        updateItem(item.id, { status: "compilation", result: data });
+      } else if (data && isNotMovieClip(data)) {
+        updateItem(item.id, { status: "failed", error: `Not a movie clip (${contentTypeLabels[data.contentType!].toLowerCase()})` });
+      } else {
+        updateItem(item.id, { status: "failed", error: data?.error || "Could not identify the movie from this video" });
+      }
+    } catch (err) {
+      console.error("Error identifying batch item:", err);
+      updateItem(item.id, { status: "failed", error: err instanceof Error ? err.message : "An unexpected error occurred" });
+    }
+  }, [updateItem]);
+
+  // Start pending items whenever a slot frees up
+  useEffect(() => {
+    const active = items.filter((item) => item.status === "identifying").length;
+    items
+      .filter((item) => item.status === "pending")
+      .slice(0, Math.max(0, BATCH_CONCURRENCY - active))
+      .forEach(identifyItem);
+  }, [items, identifyItem]);
+
+  // One link per line; duplicates of links already in the queue are skipped
+  const addUrls = useCallback((text: string) => {
+    setItems((prev) => {
+      const known = new Set(prev.map((item) => item.url));
+      const added: BatchItem[] = [];
+
+      for (const url of text.split("\n").map((line) => line.trim())) {
+        if (!url || known.has(url)) continue;
+        known.add(url);
+
+        const error = validateBatchUrl(url);
+        added.push({
+          id: `${Date.now()}-${prev.length + added.length}`,
+          url,
+          status: error ? "failed" : "pending",
+          confirmed: false,
+          ...(error ? { error } : {}),
+        });
+      }
+
+      return [...prev, ...added];
+    });
+  }, []);
+
+  const retryItem = useCallback((id: string) => {
+    setItems((prev) =>
+      prev.map((item) => {
+        if (item.id !== id) return item;
+        const error = validateBatchUrl(item.url);
+        return error ? { ...item, error } : { ...item, status: "pending", error: undefined };
+      })
+    );
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  const toggleConfirmed = useCallback((id: string, confirmed: boolean) => {
+    updateItem(id, { confirmed });
+  }, [updateItem]);
+
+  // Finished items stay cleared; anything still running keeps its place
+  const clearFinished = useCallback(() => {
+    setItems((prev) => prev.filter((item) => item.status === "pending" || item.status === "identifying"));
+  }, []);
+
+  return {
+    items,
+    addUrls,
+    retryItem,
+    removeItem,
+    toggleConfirmed,
+    clearFinished,
+  };
+}
@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { fetchIdentifyJob, streamIdentifyJob, type IdentifyJob, type JobProgress } from "@/lib/identify";
+
+const POLL_INTERVAL_MS = 2000;
+
+function readJobId(storageKey: string): string | null {
+  try {
+    return localStorage.getItem(storageKey);
+  } catch {
+    return null;
+  }
+}
+
+export function hasStoredJob(storageKey: string): boolean {
+  return readJobId(storageKey) !== null;
+}
+
+function storeJobId(storageKey: string, jobId: string | null): void {
+  try {
+    if (jobId) {
+      localStorage.setItem(storageKey, jobId);
+    } else {
+      localStorage.removeItem(storageKey);
+    }
+  } catch (error) {
+    console.error("Error storing job id:", error);
+  }
+}
+
+function applyProgress(job: IdentifyJob | null, progress: JobProgress): IdentifyJob | null {
+  if (!job) return job;
+  return {
+    ...job,
+    status: "running",
+    stage: progress.stage,
+    message: progress.message ?? job.message,
+    topCandidate: progress.topCandidate ?? job.topCandidate,
+    completedItems: progress.completedItems ?? job.completedItems,
+    totalItems: progress.totalItems ?? job.totalItems,
+    partialResult: progress.partialResult ?? job.partialResult,
+  };
+}
+
+// Starts background identification jobs and follows their live progress stream; the job id is
+// kept in localStorage under storageKey so a reload resumes by polling where it left off
+export function useIdentifyJob(storageKey: string) {
+  const [job, setJob] = useState<IdentifyJob | null>(null);
+  const [events, setEvents] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  // Bumped whenever polling should stop: a new job, a reset, a new key or unmount
+  const generationRef = useRef(0);
+  const streamAbortRef = useRef<AbortController | null>(null);
+
+  const stopPolling = useCallback(() => {
+    generationRef.current++;
+    streamAbortRef.current?.abort();
+    streamAbortRef.current = null;
+  }, []);
+
+  // Progress messages form a running log; polling only sees the latest, so skip repeats
+  const pushEvent = useCallback((message: string | null | undefined) => {
+    if (!message) return;
+    setEvents((prev) => (prev[prev.length - 1] === message ? prev : [...prev, message]));
+  }, []);
+
+  const poll = useCallback(async (jobId: string, generation: number) => {
+    while (generationRef.current === generation) {
+      try {
+        const next = await fetchIdentifyJob(jobId);
+        if (generationRef.current !== generation) return;
+
+        setJob(next);
+        pushEvent(next.message);
+        if (next.status === "completed" || next.status === "failed") return;
+      } catch (err) {
+        if (generationRef.current !== generation) return;
+        console.error("Error polling job:", err);
+        storeJobId(storageKey, null);
+        setError(err instanceof Error ? err.message : "Could not check identification status");
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }, [storageKey, pushEvent]);
+
+  // Resume a job that was still running (or already finished) when the page was last open
+  useEffect(() => {
+    const generation = ++generationRef.current;
+    setJob(null);
+    setEvents([]);
+    setError(null);
+    setIsStarting(false);
+
+    const jobId = readJobId(storageKey);
+    if (jobId) poll(jobId, generation);
+
+    return stopPolling;
+  }, [storageKey, poll, stopPolling]);
+
+  const start = useCallback(async (body: Record<string, unknown>) => {
+    stopPolling();
+    const generation = generationRef.current;
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
+    setJob(null);
+    setEvents([]);
+    setError(null);
+    setIsStarting(true);
+
+    let jobId: string | null = null;
+    let finished = false;
+
+    try {
+      await streamIdentifyJob(body, ({ event, data }) => {
+        if (generationRef.current !== generation) return;
+
+        if (event === "job") {
+          jobId = data.jobId;
+          storeJobId(storageKey, data.jobId);
+          setJob(data);
+          setIsStarting(false);
+        } else if (event === "progress") {
+          setJob((prev) => applyProgress(prev, data));
+          pushEvent(data.message);
+        } else if (event === "done") {
+          finished = true;
+          setJob((prev) => ({ ...prev, ...data }));
+        }
+      }, abortController.signal);
+    } catch (err) {
+      if (generationRef.current !== generation) return;
+      console.error("Error streaming job:", err);
+      if (!jobId) {
+        setError(err instanceof Error ? err.message : "An unexpected error occurred");
+        setIsStarting(false);
+        return;
+      }
+    }
+
+    if (generationRef.current !== generation) return;
+    if (!jobId) {
+      setError("Could not start identification");
+      setIsStarting(false);
+    } else if (!finished) {
+      // The stream closed before the job finished (dropped connection); keep following it by polling
+      poll(jobId, generation);
+    }
+  }, [storageKey, poll, pushEvent, stopPolling]);
+
+  // Stop resuming this job on reload, but keep showing it
+  const forget = useCallback(() => storeJobId(storageKey, null), [storageKey]);
+
+  const reset = useCallback(() => {
+    stopPolling();
+    storeJobId(storageKey, null);
+    setJob(null);
+    setEvents([]);
+    setError(null);
+    setIsStarting(false);
+  }, [storageKey, stopPolling]);
+
+  const isRunning = isStarting || job?.status === "queued" || job?.status === "running";
+
+  return {
+    job,
+    events,
+    error,
+    isRunning,
+    start,
+    forget,
+    reset,
+  };
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
+import type { MediaType } from "@/lib/identify";
 
 export interface SavedMovie {
   id: string;
@@ -11,6 +12,7 @@ export interface SavedMovie {
   savedAt: number;
   videoThumbnail?: string;
   confidence?: number;
+  mediaType?: MediaType;
 }
 
 export interface MovieCollection {
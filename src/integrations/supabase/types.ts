@@ -14,13 +14,63 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      identify_jobs: {
+        Row: {
+          completed_items: number | null
+          created_at: string
+          error: string | null
+          id: string
+          partial_result: Json | null
+          request: Json
+          result: Json | null
+          stage: string
+          stage_message: string | null
+          status: string
+          top_candidate: Json | null
+          total_items: number | null
+          updated_at: string
+        }
+        Insert: {
+          completed_items?: number | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          partial_result?: Json | null
+          request: Json
+          result?: Json | null
+          stage?: string
+          stage_message?: string | null
+          status?: string
+          top_candidate?: Json | null
+          total_items?: number | null
+          updated_at?: string
+        }
+        Update: {
+          completed_items?: number | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          partial_result?: Json | null
+          request?: Json
+          result?: Json | null
+          stage?: string
+          stage_message?: string | null
+          status?: string
+          top_candidate?: Json | null
+          total_items?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      delete_expired_identify_jobs: {
+        Args: { retention?: unknown }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,314 @@
+// Response shapes of the identify-movie edge function
+import type { SceneEvidence } from "@/components/ExplainabilityPanel";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export type MediaType = "movie" | "tv";
+
+// The episode a series clip was pinned to
+export interface EpisodeInfo {
+  season: number;
+  episode: number;
+  title: string;
+  still: string;
+  airDate: string;
+  overview: string;
+}
+
+// Anime results also list the titles the show is known by and the story arc of the clip
+export interface AnimeInfo {
+  alternativeTitles: string[];
+  arc?: string;
+}
+
+export interface MovieData {
+  title: string;
+  year: string;
+  poster: string;
+  plot: string;
+  rating: string;
+  runtime: string;
+  genres: string[];
+  trailer: string | null;
+  tmdbId: number;
+  aiReasoning: string;
+  runtimeMinutes?: number;
+  // Series results reuse this shape; older saved results have no media type and are movies
+  mediaType?: MediaType;
+  episode?: EpisodeInfo;
+  anime?: AnimeInfo;
+}
+
+// Another TMDB entry with the same title (remake, original, re-release)
+export interface MovieVersion {
+  tmdbId: number;
+  title: string;
+  year: string;
+  poster: string;
+  mediaType?: MediaType;
+}
+
+// Which scene the clip shows and roughly where it falls in the movie
+export interface SceneInfo {
+  description: string;
+  minute?: number;
+  act?: 1 | 2 | 3;
+}
+
+// What a reason rests on; "visual" reasons are things the model saw in the thumbnail or frames and
+// the cast kinds come from checking the names the video mentions against the candidate's TMDB cast
+export type ReasonKind = "evidence" | "visual" | "cast_verified" | "cast_missing";
+
+export interface MatchReason {
+  kind: ReasonKind;
+  text: string;
+}
+
+// Names the video mentions, split by whether this candidate's TMDB cast accounts for them
+export interface CastCheck {
+  verified: string[];
+  missing: string[];
+}
+
+export interface MovieMatch {
+  movie: MovieData;
+  confidence: number;
+  matchReasons: MatchReason[];
+  castCheck?: CastCheck;
+  matchedQuote?: string;
+  alternates?: MovieVersion[];
+  scene?: SceneInfo;
+}
+
+export interface StreamingProvider {
+  name: string;
+  logo: string;
+  link: string;
+  type: "subscription" | "rent" | "buy";
+}
+
+export interface SimilarMovie {
+  id: number;
+  title: string;
+  poster: string;
+  year: string;
+  mediaType?: MediaType;
+}
+
+export interface VideoSourceInfo {
+  id: string;
+  label: string;
+  capabilities: {
+    captions: boolean;
+    comments: boolean;
+    description: boolean;
+  };
+}
+
+// One movie's stretch of a compilation or supercut, resolved like a single clip
+export interface CompilationSegment {
+  start: number;
+  end?: number;
+  movie: MovieData;
+  confidence: number;
+  matchReasons: MatchReason[];
+  streamingProviders: StreamingProvider[];
+}
+
+export type ContentType = "film" | "series" | "music video" | "game" | "original content" | "unknown";
+
+export const contentTypeLabels: Record<ContentType, string> = {
+  film: "Movie",
+  series: "TV series",
+  "music video": "Music video",
+  game: "Video game",
+  "original content": "Original content",
+  unknown: "Unknown",
+};
+
+export interface IdentifyResponse {
+  movie?: MovieData;
+  videoTitle?: string;
+  videoThumbnail?: string;
+  videoFrames?: string[];
+  source?: VideoSourceInfo;
+  searchQuery?: string;
+  analyzedAt?: number;
+  sceneEvidence?: SceneEvidence;
+  matches?: MovieMatch[];
+  streamingProviders?: StreamingProvider[];
+  similarMovies?: SimilarMovie[];
+  detailedReasoning?: string;
+  // Set when the AI was unavailable and the matches come from a plain TMDB keyword search
+  mode?: "heuristic";
+  contentType?: ContentType;
+  segments?: CompilationSegment[];
+  playlist?: PlaylistResponse;
+  error?: string;
+}
+
+export interface PlaylistItem {
+  videoId: string;
+  videoUrl: string;
+  title: string;
+  thumbnail: string;
+  result?: IdentifyResponse;
+  error?: string;
+}
+
+export interface PlaylistResponse {
+  id: string;
+  title: string;
+  items: PlaylistItem[];
+}
+
+// A non-2xx reply, carrying the function's own message and, when it sends one, its error code
+// ("invalid_ai_response" when the model kept answering in an unusable shape)
+export class IdentifyError extends Error {
+  constructor(message: string, readonly code?: string) {
+    super(message);
+    this.name = "IdentifyError";
+  }
+}
+
+export async function invokeIdentify(body: Record<string, unknown>): Promise<IdentifyResponse | null> {
+  const { data, error } = await supabase.functions.invoke<IdentifyResponse>("identify-movie", { body });
+  if (error) {
+    // The client only reports the status; the reason is in the JSON body of the response
+    if (error instanceof FunctionsHttpError) {
+      const reply: { error?: string; code?: string } | null = await error.context.json().catch(() => null);
+      if (reply?.error) throw new IdentifyError(reply.error, reply.code);
+    }
+    throw new IdentifyError(error.message || "Failed to identify movie");
+  }
+  return data;
+}
+
+// The clip was classified as something no movie or show can match (music video, game, vlog)
+export function isNotMovieClip(response: IdentifyResponse): boolean {
+  return !response.movie && response.contentType !== undefined;
+}
+
+// Compilations come back as a timeline of segments instead of a single movie
+export function isCompilation(response: IdentifyResponse): boolean {
+  return !response.movie && (response.segments?.length ?? 0) > 0;
+}
+
+// A different version of a matched title, with its own providers and similar titles
+export interface MovieVersionDetails {
+  movie: MovieData;
+  streamingProviders: StreamingProvider[];
+  similarMovies: SimilarMovie[];
+}
+
+// Full details for a different version of a matched title
+export async function fetchMovieDetails(tmdbId: number, mediaType: MediaType = "movie"): Promise<MovieVersionDetails> {
+  const data = await invokeIdentify({ tmdbId, mediaType });
+  if (!data?.movie) throw new Error(data?.error || "Could not load this version");
+  return { movie: data.movie, streamingProviders: data.streamingProviders ?? [], similarMovies: data.similarMovies ?? [] };
+}
+
+export function tmdbPageUrl(tmdbId: number, mediaType: MediaType = "movie"): string {
+  return `https://www.themoviedb.org/${mediaType}/${tmdbId}`;
+}
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+export type JobStage = "queued" | "metadata" | "analyzing" | "matching" | "providers" | "playlist" | "done";
+
+export interface TopCandidate {
+  title: string;
+  confidence: number;
+}
+
+export interface IdentifyJob {
+  jobId: string;
+  status: JobStatus;
+  stage: JobStage;
+  message?: string | null;
+  topCandidate?: TopCandidate | null;
+  completedItems?: number | null;
+  totalItems?: number | null;
+  partialResult?: IdentifyResponse | null;
+  result?: IdentifyResponse | null;
+  error?: string | null;
+}
+
+export interface JobProgress {
+  stage: JobStage;
+  message?: string;
+  topCandidate?: TopCandidate;
+  completedItems?: number;
+  totalItems?: number;
+  partialResult?: IdentifyResponse;
+}
+
+export type JobStreamEvent =
+  | { event: "job"; data: IdentifyJob }
+  | { event: "progress"; data: JobProgress }
+  | { event: "done"; data: IdentifyJob };
+
+export const jobStageLabels: Record<JobStage, string> = {
+  queued: "Waiting to start...",
+  metadata: "Fetching video details...",
+  analyzing: "Analyzing the clip...",
+  matching: "Consulting the film database...",
+  providers: "Finding where to watch...",
+  playlist: "Identifying playlist videos...",
+  done: "Finishing up...",
+};
+
+// Start a background job and follow its progress over server-sent events. Resolves when the
+// stream ends, which may be before the job finishes if the connection drops
+export async function streamIdentifyJob(
+  body: Record<string, unknown>,
+  onEvent: (event: JobStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  // Send the signed-in user's token like supabase.functions.invoke does, so the job runs as them
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/identify-movie`, {
+    method: "POST",
+    signal,
+    headers: {
+      "Content-Type": "application/json",
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || "Could not start identification");
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+
+    // Events are separated by a blank line: "event: progress\ndata: {...}\n\n"
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const event = chunk.match(/^event: (.+)$/m)?.[1];
+      const data = chunk.match(/^data: (.+)$/m)?.[1];
+      if (event && data) {
+        onEvent({ event, data: JSON.parse(data) } as JobStreamEvent);
+      }
+    }
+  }
+}
+
+export async function fetchIdentifyJob(jobId: string): Promise<IdentifyJob> {
+  const { data, error } = await supabase.functions.invoke<IdentifyJob>("identify-movie", { body: { jobId } });
+  if (error) throw new Error(error.message || "Could not check identification status");
+  if (!data) throw new Error("Could not check identification status");
+  return data;
+}
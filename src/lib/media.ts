@@ -0,0 +1,97 @@
+// Browser-side helpers for preparing images and video frames before they are sent to identify-movie
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not read image"));
+    image.src = src;
+  });
+}
+
+// Draw a source onto a canvas no larger than maxSize on its longest edge and encode it as JPEG
+export function drawToDataUrl(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  maxSize: number,
+  quality = 0.85
+): string {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", quality);
+}
+
+export async function resizeImageFile(file: File, maxSize: number): Promise<string> {
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(objectUrl);
+    return drawToDataUrl(image, image.naturalWidth, image.naturalHeight, maxSize);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+function waitForEvent(target: HTMLVideoElement, event: "loadeddata" | "seeked"): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const handleEvent = () => { cleanup(); resolve(); };
+    const handleError = () => { cleanup(); reject(new Error("This video format is not supported by your browser")); };
+    const cleanup = () => {
+      target.removeEventListener(event, handleEvent);
+      target.removeEventListener("error", handleError);
+    };
+    target.addEventListener(event, handleEvent);
+    target.addEventListener("error", handleError);
+  });
+}
+
+export interface SampledFrames {
+  frames: string[];
+  thumbnails: string[];
+  duration: number;
+}
+
+// Seek through a local video and capture evenly spaced frames, skipping the very start and end
+export async function sampleVideoFrames(file: File, count: number, maxSize: number, thumbnailSize: number): Promise<SampledFrames> {
+  const objectUrl = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  try {
+    const loaded = waitForEvent(video, "loadeddata");
+    video.src = objectUrl;
+    await loaded;
+
+    const { duration, videoWidth, videoHeight } = video;
+    if (!Number.isFinite(duration) || duration <= 0 || !videoWidth || !videoHeight) {
+      throw new Error("Could not read frames from this video");
+    }
+
+    const frames: string[] = [];
+    const thumbnails: string[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const seeked = waitForEvent(video, "seeked");
+      video.currentTime = (duration * (i + 0.5)) / count;
+      await seeked;
+
+      frames.push(drawToDataUrl(video, videoWidth, videoHeight, maxSize, 0.8));
+      thumbnails.push(drawToDataUrl(video, videoWidth, videoHeight, thumbnailSize, 0.7));
+    }
+
+    return { frames, thumbnails, duration };
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(objectUrl);
+  }
+}
@@ -0,0 +1,107 @@
+import { Facebook, Instagram, MessageSquare, Music2, Twitch, Twitter, Video, Youtube, type LucideIcon } from "lucide-react";
+
+export type VideoPlatform =
+  | "youtube"
+  | "tiktok"
+  | "instagram"
+  | "facebook"
+  | "vimeo"
+  | "dailymotion"
+  | "twitch"
+  | "reddit"
+  | "twitter";
+
+export interface VideoSource {
+  id: VideoPlatform;
+  label: string;
+  icon: LucideIcon;
+  patterns: RegExp[];
+}
+
+export const videoSources: VideoSource[] = [
+  {
+    id: "youtube",
+    label: "YouTube",
+    icon: Youtube,
+    patterns: [
+      /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/shorts\/|youtube\.com\/embed\/)/,
+      /youtube\.com\/(?:playlist|watch)\?(?:[^#]*&)?list=[A-Za-z0-9_-]+/,
+    ],
+  },
+  {
+    id: "tiktok",
+    label: "TikTok",
+    icon: Music2,
+    patterns: [
+      /tiktok\.com\/@[^/]+\/video\/\d+/,
+      /(?:vm|vt)\.tiktok\.com\/[A-Za-z0-9]+/,
+      /tiktok\.com\/t\/[A-Za-z0-9]+/,
+      /m\.tiktok\.com\/v\/\d+/,
+    ],
+  },
+  {
+    id: "instagram",
+    label: "Instagram",
+    icon: Instagram,
+    patterns: [/instagram\.com\/(?:reels?|p|tv)\/[A-Za-z0-9_-]+/],
+  },
+  {
+    id: "facebook",
+    label: "Facebook",
+    icon: Facebook,
+    patterns: [
+      /facebook\.com\/watch\/?\?v=\d+/,
+      /facebook\.com\/[^/]+\/videos\/(?:[^/]+\/)?\d+/,
+      /facebook\.com\/reel\/\d+/,
+      /facebook\.com\/share\/[vr]\/[A-Za-z0-9]+/,
+      /fb\.watch\/[A-Za-z0-9_-]+/,
+    ],
+  },
+  {
+    id: "vimeo",
+    label: "Vimeo",
+    icon: Video,
+    patterns: [/vimeo\.com\/(?:channels\/[^/]+\/|groups\/[^/]+\/videos\/)?\d+/, /player\.vimeo\.com\/video\/\d+/],
+  },
+  {
+    id: "dailymotion",
+    label: "Dailymotion",
+    icon: Video,
+    patterns: [/dailymotion\.com\/(?:embed\/)?video\/[A-Za-z0-9]+/, /dai\.ly\/[A-Za-z0-9]+/],
+  },
+  {
+    id: "twitch",
+    label: "Twitch",
+    icon: Twitch,
+    patterns: [/clips\.twitch\.tv\/[A-Za-z0-9_-]+/, /twitch\.tv\/[^/]+\/clip\/[A-Za-z0-9_-]+/],
+  },
+  {
+    id: "reddit",
+    label: "Reddit",
+    icon: MessageSquare,
+    patterns: [/v\.redd\.it\/[A-Za-z0-9]+/, /reddit\.com\/r\/[^/]+\/comments\/[A-Za-z0-9]+/],
+  },
+  {
+    id: "twitter",
+    label: "X/Twitter",
+    icon: Twitter,
+    patterns: [/(?:twitter|x)\.com\/[^/]+\/status(?:es)?\/\d+/],
+  },
+];
+
+// "YouTube, TikTok or Instagram"
+export function formatSourceList(sources: VideoSource[] = videoSources): string {
+  const labels = sources.map((source) => source.label);
+  if (labels.length <= 1) return labels.join("");
+  return `${labels.slice(0, -1).join(", ")} or ${labels[labels.length - 1]}`;
+}
+
+export function detectVideoSource(url: string): VideoSource | null {
+  return videoSources.find((source) => source.patterns.some((pattern) => pattern.test(url))) ?? null;
+}
+
+// Playlist links (list= without a video id) are identified video by video
+export function extractPlaylistId(url: string): string | null {
+  if (!/youtube\.com\//.test(url) || /[?&]v=/.test(url)) return null;
+  return url.match(/[?&]list=([A-Za-z0-9_-]+)/)?.[1] ?? null;
+}
@@ -1,75 +1,73 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Link2, ImageIcon, FileVideo, Quote, MessageSquareText, ListPlus } from "lucide-react";
 import { HeroSection } from "@/components/HeroSection";
 import { UrlInput } from "@/components/UrlInput";
+import { ImageInput, ImageSubmission } from "@/components/ImageInput";
+import { VideoFileInput, VideoFileSubmission } from "@/components/VideoFileInput";
+import { TextSearchInput } from "@/components/TextSearchInput";
+import { BatchQueue } from "@/components/BatchQueue";
 import { LoadingState } from "@/components/LoadingState";
 import { MovieResult } from "@/components/MovieResult";
+import { NotMovieClip } from "@/components/NotMovieClip";
+import { CompilationTimeline } from "@/components/CompilationTimeline";
 import { HistoryModal } from "@/components/HistoryModal";
-import { supabase } from "@/integrations/supabase/client";
-
-interface MovieData {
-  title: string;
-  year: string;
-  poster: string;
-  plot: string;
-  rating: string;
-  runtime: string;
-  genres: string[];
-  trailer: string | null;
-  tmdbId: number;
-  aiReasoning: string;
-}
-
-interface MovieMatch {
-  movie: MovieData;
-  confidence: number;
-  matchReasons: string[];
-}
-
-interface StreamingProvider {
-  name: string;
-  logo: string;
-  link: string;
-  type: "subscription" | "rent" | "buy";
-}
-
-interface SimilarMovie {
-  id: number;
-  title: string;
-  poster: string;
-  year: string;
-}
-
-interface IdentifyResponse {
-  movie?: MovieData;
-  videoThumbnail?: string;
-  matches?: MovieMatch[];
-  streamingProviders?: StreamingProvider[];
-  similarMovies?: SimilarMovie[];
-  detailedReasoning?: string;
-  error?: string;
-}
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useBatchQueue } from "@/hooks/useBatchQueue";
+import { useIdentifyJob } from "@/hooks/useIdentifyJob";
+import { invokeIdentify, isCompilation, isNotMovieClip, jobStageLabels, type IdentifyResponse } from "@/lib/identify";
+import { extractPlaylistId } from "@/lib/videoSources";
+
+// Video links run as background jobs; the id is kept here so a reload resumes polling
+const ACTIVE_JOB_KEY = "clipit-active-job";
+
+// A single movie, a compilation timeline or an explicit "not a movie clip" all count as results
+const hasOutcome = (data: IdentifyResponse) => Boolean(data.movie) || isCompilation(data) || isNotMovieClip(data);
 
 const Index = () => {
+  const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<IdentifyResponse | null>(null);
+  const [activeTab, setActiveTab] = useState("link");
+  // Lives here so the queue keeps running while a single result is open or another tab is selected
+  const batch = useBatchQueue();
+  const {
+    job,
+    events: jobEvents,
+    error: jobError,
+    isRunning: isJobRunning,
+    start: startJob,
+    reset: resetJob,
+  } = useIdentifyJob(ACTIVE_JOB_KEY);
+  const isBusy = isLoading || isJobRunning;
+
+  // Hand a finished job over to the regular result / error state
+  useEffect(() => {
+    if (jobError) {
+      setError(jobError);
+      resetJob();
+    } else if (job?.status === "completed" && job.result && hasOutcome(job.result)) {
+      setResult(job.result);
+      resetJob();
+    } else if (job?.status === "completed" || job?.status === "failed") {
+      setError(job.error || "Could not identify the movie from this video. Please try a different clip.");
+      resetJob();
+    }
+  }, [job, jobError, resetJob]);
 
-  const handleIdentify = async (videoUrl: string) => {
+  // localOverrides carries client-side media (screenshots, sampled frames) the server does not echo back
+  const runIdentification = async (body: Record<string, unknown>, localOverrides?: Partial<IdentifyResponse>) => {
     setIsLoading(true);
     setError(null);
     setResult(null);
 
     try {
-      const { data, error: functionError } = await supabase.functions.invoke<IdentifyResponse>(
-        "identify-movie",
-        { body: { videoUrl } }
-      );
-
-      if (functionError) throw new Error(functionError.message || "Failed to identify movie");
+      const data = await invokeIdentify(body);
       if (data?.error) { setError(data.error); return; }
 
-      if (data?.movie && data?.videoThumbnail) {
-        setResult(data);
+      if (data && hasOutcome(data)) {
+        setResult({ ...data, ...localOverrides });
       } else {
         setError("Could not identify the movie from this video. Please try a different clip.");
       }
@@ -81,6 +79,28 @@ const Index = () => {
     }
   };
 
+  const handleIdentify = (videoUrl: string) => {
+    // Playlists get their own results table page
+    const playlistId = extractPlaylistId(videoUrl);
+    if (playlistId) {
+      navigate(`/playlist/${playlistId}`);
+      return;
+    }
+    setError(null);
+    setResult(null);
+    startJob({ videoUrl });
+  };
+
+  const handleIdentifyImage = ({ imageData, thumbnail, fileName }: ImageSubmission) =>
+    runIdentification({ imageData, fileName }, { videoThumbnail: thumbnail });
+
+  const handleIdentifyVideoFile = ({ frames, thumbnails, fileName }: VideoFileSubmission) =>
+    runIdentification({ frames, fileName }, { videoThumbnail: thumbnails[0], videoFrames: thumbnails });
+
+  const handleIdentifyQuote = (quote: string) => runIdentification({ quote });
+
+  const handleIdentifyDescription = (description: string) => runIdentification({ description });
+
   const handleReset = () => { setResult(null); setError(null); };
 
   return (
@@ -99,19 +119,121 @@ const Index = () => {
 
         {!result ? (
           <>
-            <UrlInput onSubmit={handleIdentify} isLoading={isLoading} error={error} />
-            {isLoading && <LoadingState />}
+            <Tabs
+              value={activeTab}
+              onValueChange={(value) => { setActiveTab(value); setError(null); }}
+              className="w-full max-w-2xl mx-auto"
+            >
+              <TabsList className="w-full bg-secondary/50 mb-6">
+                <TabsTrigger value="link" disabled={isBusy} className="flex-1 gap-2">
+                  <Link2 className="w-4 h-4" />
+                  <span className="hidden sm:inline">Video link</span>
+                </TabsTrigger>
+                <TabsTrigger value="image" disabled={isBusy} className="flex-1 gap-2">
+                  <ImageIcon className="w-4 h-4" />
+                  <span className="hidden sm:inline">Screenshot</span>
+                </TabsTrigger>
+                <TabsTrigger value="video-file" disabled={isBusy} className="flex-1 gap-2">
+                  <FileVideo className="w-4 h-4" />
+                  <span className="hidden sm:inline">Video file</span>
+                </TabsTrigger>
+                <TabsTrigger value="quote" disabled={isBusy} className="flex-1 gap-2">
+                  <Quote className="w-4 h-4" />
+                  <span className="hidden sm:inline">Quote</span>
+                </TabsTrigger>
+                <TabsTrigger value="description" disabled={isBusy} className="flex-1 gap-2">
+                  <MessageSquareText className="w-4 h-4" />
+                  <span className="hidden sm:inline">Describe</span>
+                </TabsTrigger>
+                <TabsTrigger value="batch" disabled={isBusy} className="flex-1 gap-2">
+                  <ListPlus className="w-4 h-4" />
+                  <span className="hidden sm:inline">Batch</span>
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="link">
+                <UrlInput onSubmit={handleIdentify} isLoading={isBusy} error={error} />
+              </TabsContent>
+              <TabsContent value="image">
+                <ImageInput onSubmit={handleIdentifyImage} isLoading={isBusy} error={error} />
+              </TabsContent>
+              <TabsContent value="video-file">
+                <VideoFileInput onSubmit={handleIdentifyVideoFile} isLoading={isBusy} error={error} />
+              </TabsContent>
+              <TabsContent value="quote">
+                <TextSearchInput
+                  onSubmit={handleIdentifyQuote}
+                  isLoading={isBusy}
+                  error={error}
+                  icon={Quote}
+                  placeholder="Type a line you remember, e.g. I'm gonna make him an offer he can't refuse"
+                  helperText="Misremembered or paraphrased lines work too"
+                  maxLength={500}
+                />
+              </TabsContent>
+              <TabsContent value="description">
+                <TextSearchInput
+                  onSubmit={handleIdentifyDescription}
+                  isLoading={isBusy}
+                  error={error}
+                  icon={MessageSquareText}
+                  placeholder="Describe a scene, actor or plot, e.g. movie where a guy relives the same day over and over"
+                  helperText="Mention plot points, actors, settings or roughly when it came out"
+                  maxLength={1000}
+                />
+              </TabsContent>
+              <TabsContent value="batch">
+                <BatchQueue
+                  items={batch.items}
+                  onAdd={batch.addUrls}
+                  onRetry={batch.retryItem}
+                  onRemove={batch.removeItem}
+                  onToggleConfirmed={batch.toggleConfirmed}
+                  onClearFinished={batch.clearFinished}
+                  onView={(item) => setResult(item.result ?? null)}
+                />
+              </TabsContent>
+            </Tabs>
+            {isBusy && (
+              <LoadingState
+                message={job ? jobStageLabels[job.stage] : undefined}
+                events={jobEvents}
+                topCandidate={job?.topCandidate}
+              />
+            )}
           </>
         ) : (
           <div className="space-y-8">
-            <MovieResult
-              movie={result.movie!}
-              videoThumbnail={result.videoThumbnail!}
-              matches={result.matches}
-              streamingProviders={result.streamingProviders}
-              similarMovies={result.similarMovies}
-              detailedReasoning={result.detailedReasoning}
-            />
+            {isCompilation(result) ? (
+              <CompilationTimeline
+                segments={result.segments!}
+                videoTitle={result.videoTitle}
+                videoThumbnail={result.videoThumbnail}
+                sourceLabel={result.source?.label}
+                detailedReasoning={result.detailedReasoning}
+              />
+            ) : isNotMovieClip(result) ? (
+              <NotMovieClip
+                contentType={result.contentType!}
+                detailedReasoning={result.detailedReasoning}
+                videoThumbnail={result.videoThumbnail}
+                sourceLabel={result.source?.label}
+              />
+            ) : (
+              <MovieResult
+                movie={result.movie!}
+                videoThumbnail={result.videoThumbnail || ""}
+                videoFrames={result.videoFrames}
+                sourceLabel={result.source?.label}
+                searchQuery={result.searchQuery}
+                analyzedAt={result.analyzedAt}
+                sceneEvidence={result.sceneEvidence}
+                matches={result.matches}
+                streamingProviders={result.streamingProviders}
+                similarMovies={result.similarMovies}
+                detailedReasoning={result.detailedReasoning}
+                mode={result.mode}
+              />
+            )}
             <div className="text-center">
               <button onClick={handleReset} className="text-primary hover:text-primary/80 underline underline-offset-4 transition-colors">
                 Identify another movie
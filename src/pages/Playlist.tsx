@@ -0,0 +1,125 @@
+import { useCallback, useEffect } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { AlertCircle, ArrowLeft, RotateCcw } from "lucide-react";
+import { LoadingState } from "@/components/LoadingState";
+import { MovieResult } from "@/components/MovieResult";
+import { CompilationTimeline } from "@/components/CompilationTimeline";
+import { PlaylistResults } from "@/components/PlaylistResults";
+import { HistoryModal } from "@/components/HistoryModal";
+import { hasStoredJob, useIdentifyJob } from "@/hooks/useIdentifyJob";
+import { isCompilation, jobStageLabels } from "@/lib/identify";
+
+const Playlist = () => {
+  const { playlistId } = useParams<{ playlistId: string }>();
+  const [searchParams] = useSearchParams();
+  // Finished playlist jobs stay stored, so revisiting the page shows the saved results
+  const storageKey = `clipit-playlist-job-${playlistId}`;
+  const { job, events, error: jobError, isRunning, start, forget } = useIdentifyJob(storageKey);
+
+  const identifyPlaylist = useCallback(
+    () => start({ videoUrl: `https://www.youtube.com/playlist?list=${playlistId}` }),
+    [playlistId, start]
+  );
+
+  useEffect(() => {
+    if (playlistId && !hasStoredJob(storageKey)) identifyPlaylist();
+  }, [playlistId, storageKey, identifyPlaylist]);
+
+  // Failed jobs are retried from scratch on the next visit
+  useEffect(() => {
+    if (job?.status === "failed") forget();
+  }, [job?.status, forget]);
+
+  const playlist = job?.result?.playlist ?? job?.partialResult?.playlist ?? null;
+  const error = jobError
+    || (job?.status === "failed" ? job.error || "Could not read this playlist. Please check the link and try again." : null);
+
+  const selectedItem = playlist?.items.find((item) => item.videoId === searchParams.get("video"));
+  const selectedResult = selectedItem?.result;
+
+  return (
+    <div className="min-h-screen bg-gradient-dark">
+      <div className="fixed inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-1/4 left-1/2 -translate-x-1/2 w-[800px] h-[600px] bg-primary/5 rounded-full blur-3xl" />
+      </div>
+
+      {/* History Button */}
+      <div className="fixed top-4 right-4 z-20">
+        <HistoryModal />
+      </div>
+
+      <main className="relative z-10 container mx-auto px-4 py-16 md:py-24">
+        <div className="w-full max-w-5xl mx-auto mb-8 flex items-center justify-between">
+          <Link
+            to={selectedResult ? `/playlist/${playlistId}` : "/"}
+            className="inline-flex items-center gap-2 text-sm text-primary hover:text-primary/80 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {selectedResult ? "Back to playlist" : "Identify another movie"}
+          </Link>
+          {!selectedResult && !isRunning && (
+            <button
+              onClick={identifyPlaylist}
+              className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Identify again
+            </button>
+          )}
+        </div>
+
+        {error ? (
+          <div className="w-full max-w-2xl mx-auto p-4 rounded-xl bg-destructive/10 border border-destructive/20">
+            <p className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </p>
+          </div>
+        ) : selectedItem && selectedResult?.movie ? (
+          <MovieResult
+            key={selectedItem.videoId}
+            movie={selectedResult.movie}
+            videoThumbnail={selectedResult.videoThumbnail || selectedItem.thumbnail}
+            sourceLabel={selectedResult.source?.label}
+            analyzedAt={selectedResult.analyzedAt}
+            sceneEvidence={selectedResult.sceneEvidence}
+            matches={selectedResult.matches}
+            streamingProviders={selectedResult.streamingProviders}
+            similarMovies={selectedResult.similarMovies}
+            detailedReasoning={selectedResult.detailedReasoning}
+            mode={selectedResult.mode}
+          />
+        ) : selectedItem && selectedResult && isCompilation(selectedResult) ? (
+          <CompilationTimeline
+            key={selectedItem.videoId}
+            segments={selectedResult.segments!}
+            videoTitle={selectedResult.videoTitle || selectedItem.title}
+            videoThumbnail={selectedResult.videoThumbnail || selectedItem.thumbnail}
+            sourceLabel={selectedResult.source?.label}
+            detailedReasoning={selectedResult.detailedReasoning}
+          />
+        ) : (
+          <>
+            {isRunning && (
+              <LoadingState
+                message={
+                  job?.stage === "playlist" && job.totalItems
+                    ? `Identified ${job.completedItems ?? 0} of ${job.totalItems} videos — you can leave and come back`
+                    : jobStageLabels[job?.stage ?? "queued"]
+                }
+                events={events}
+              />
+            )}
+            {playlist && <PlaylistResults playlist={playlist} totalItems={job?.totalItems ?? undefined} />}
+          </>
+        )}
+
+        <footer className="mt-24 text-center text-sm text-muted-foreground">
+          <p>Powered by AI & TMDB</p>
+        </footer>
+      </main>
+    </div>
+  );
+};
+
+export default Playlist;
@@ -1,11 +1,64 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  type Chapter,
+  extractStartTime,
+  parseChapters,
+  parseEpisodeNumbers,
+  parseOfficialClipTitle,
+  TIMESTAMP_PATTERN,
+  timestampToSeconds,
+} from "./parsing.ts";
+import { normalizeTitle, titleSimilarity } from "./titles.ts";
+import {
+  type AIIdentification,
+  type AIMatch,
+  AI_MATCH_COUNT,
+  type AIValidation,
+  type AIValidator,
+  type ContentType,
+  isNonEmptyString,
+  isStringArray,
+  type MediaType,
+  normalizeConfidences,
+  parseAIContent,
+  type SceneInfo,
+  validateIdentification,
+  type VisualEvidence,
+} from "./validation.ts";
+
+// Provided by the Supabase edge runtime; keeps the worker alive for background jobs
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+type VideoPlatform =
+  | "youtube"
+  | "tiktok"
+  | "instagram"
+  | "facebook"
+  | "vimeo"
+  | "dailymotion"
+  | "twitch"
+  | "reddit"
+  | "twitter";
+
+interface CaptionLine {
+  start: number;
+  text: string;
+}
+
+interface TimestampedComment {
+  time: number;
+  text: string;
+}
+
 interface YouTubeMetadata {
+  platform: VideoPlatform;
   title: string;
   description: string;
   thumbnail: string;
@@ -13,7 +66,43 @@ interface YouTubeMetadata {
   publishedAt: string;
   captionsAvailable: boolean;
   captionsText: string;
+  captionLines: CaptionLine[];
   commentKeywords: string[];
+  timestampedComments: TimestampedComment[];
+  chapters: Chapter[];
+  hashtags: string[];
+  // Extra stills beyond the main thumbnail, sent to the vision model alongside it
+  frameThumbnails: string[];
+}
+
+// Clips no TMDB movie or show can match, so they get an explicit outcome instead of forced guesses
+const NON_TITLE_CONTENT: Partial<Record<ContentType, string>> = {
+  "music video": "a music video",
+  game: "video-game footage",
+  "original content": "original content made for the platform",
+};
+
+type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];
+}
+
+interface SourceCapabilities {
+  captions: boolean;
+  comments: boolean;
+  description: boolean;
+}
+
+interface SourceAdapter {
+  id: VideoPlatform;
+  label: string;
+  capabilities: SourceCapabilities;
+  matches: (url: string) => boolean;
+  fetchMetadata: (url: string) => Promise<YouTubeMetadata>;
 }
 
 interface MovieResult {
@@ -26,13 +115,60 @@ interface MovieResult {
   genres: string[];
   trailer: string | null;
   tmdbId: number;
+  keywords: string[];
   aiReasoning: string;
+  // Numeric runtime for placing a scene on the runtime bar; runtime above is for display
+  runtimeMinutes?: number;
+  mediaType: MediaType;
+  episode?: EpisodeInfo;
+  anime?: AnimeInfo;
+}
+
+interface AnimeInfo {
+  alternativeTitles: string[];
+  arc?: string;
+}
+
+interface EpisodeInfo {
+  season: number;
+  episode: number;
+  title: string;
+  still: string;
+  airDate: string;
+  overview: string;
+}
+
+// Another TMDB entry with the same title (remake, original, re-release) the user can switch to
+interface MovieVersion {
+  tmdbId: number;
+  title: string;
+  year: string;
+  poster: string;
+  mediaType: MediaType;
+}
+
+// What a reason rests on, so the UI can set what the model saw in the images and the TMDB cast check apart from the rest
+type ReasonKind = "evidence" | "visual" | "cast_verified" | "cast_missing";
+
+interface MatchReason {
+  kind: ReasonKind;
+  text: string;
+}
+
+// Names the video mentions, split by whether this candidate's TMDB cast accounts for them
+interface CastCheck {
+  verified: string[];
+  missing: string[];
 }
 
 interface MovieMatch {
   movie: MovieResult;
   confidence: number;
-  matchReasons: string[];
+  matchReasons: MatchReason[];
+  castCheck?: CastCheck;
+  matchedQuote?: string;
+  alternates?: MovieVersion[];
+  scene?: SceneInfo;
 }
 
 interface StreamingProvider {
@@ -48,6 +184,7 @@ interface SimilarMovie {
   poster: string;
   year: string;
   genres: string[];
+  mediaType: MediaType;
 }
 
 function extractVideoId(url: string): string | null {
@@ -63,6 +200,101 @@ function extractVideoId(url: string): string | null {
   return null;
 }
 
+function isTikTokUrl(url: string): boolean {
+  const patterns = [
+    /tiktok\.com\/@[^/]+\/video\/\d+/,
+    /(?:vm|vt)\.tiktok\.com\/[A-Za-z0-9]+/,
+    /tiktok\.com\/t\/[A-Za-z0-9]+/,
+    /m\.tiktok\.com\/v\/\d+/,
+  ];
+
+  return patterns.some((pattern) => pattern.test(url));
+}
+
+function isInstagramUrl(url: string): boolean {
+  return /instagram\.com\/(?:reels?|p|tv)\/[A-Za-z0-9_-]+/.test(url);
+}
+
+function isFacebookVideoUrl(url: string): boolean {
+  const patterns = [
+    /facebook\.com\/watch\/?\?v=\d+/,
+    /facebook\.com\/[^/]+\/videos\/(?:[^/]+\/)?\d+/,
+    /facebook\.com\/reel\/\d+/,
+    /facebook\.com\/share\/[vr]\/[A-Za-z0-9]+/,
+    /fb\.watch\/[A-Za-z0-9_-]+/,
+  ];
+
+  return patterns.some((pattern) => pattern.test(url));
+}
+
+function extractVimeoId(url: string): string | null {
+  const match = url.match(/(?:vimeo\.com\/(?:channels\/[^/]+\/|groups\/[^/]+\/videos\/)?|player\.vimeo\.com\/video\/)(\d+)/);
+  return match ? match[1] : null;
+}
+
+function extractDailymotionId(url: string): string | null {
+  const match = url.match(/(?:dailymotion\.com\/(?:embed\/)?video\/|dai\.ly\/)([A-Za-z0-9]+)/);
+  return match ? match[1] : null;
+}
+
+function extractTwitchClipSlug(url: string): string | null {
+  const match = url.match(/(?:clips\.twitch\.tv\/(?:embed\?clip=)?|twitch\.tv\/[^/]+\/clip\/)([A-Za-z0-9_-]+)/);
+  return match ? match[1] : null;
+}
+
+function isRedditVideoUrl(url: string): boolean {
+  return /v\.redd\.it\/[A-Za-z0-9]+/.test(url) || /reddit\.com\/r\/[^/]+\/comments\/[A-Za-z0-9]+/.test(url);
+}
+
+function extractTweetId(url: string): string | null {
+  const match = url.match(/(?:twitter|x)\.com\/[^/]+\/status(?:es)?\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+// Tags keep their casing so camelCase tags can still be split into words; duplicates are case-insensitive
+function extractHashtags(text: string): string[] {
+  const tags = new Map<string, string>();
+  for (const match of text.matchAll(/#([\p{L}\p{N}_]+)/gu)) {
+    const key = match[1].toLowerCase();
+    if (!tags.has(key)) tags.set(key, match[1]);
+  }
+  return Array.from(tags.values()).slice(0, 15);
+}
+
+// "#TheDarkKnight" or "#the_dark_knight" -> "The Dark Knight" / "the dark knight"
+function hashtagWords(tag: string): string {
+  return tag.replace(/_/g, " ").replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2");
+}
+
+function stripHashtags(text: string): string {
+  return text.replace(/#[\p{L}\p{N}_]+/gu, "").replace(/\s+/g, " ").trim();
+}
+
+function emptyMetadata(platform: VideoPlatform): YouTubeMetadata {
+  return {
+    platform,
+    title: "",
+    description: "",
+    thumbnail: "",
+    channelTitle: "",
+    publishedAt: "",
+    captionsAvailable: false,
+    captionsText: "",
+    captionLines: [],
+    commentKeywords: [],
+    timestampedComments: [],
+    chapters: [],
+    hashtags: [],
+    frameThumbnails: [],
+  };
+}
+
+// YouTube keeps three stills taken at roughly 25%, 50% and 75% of the video (1.jpg/2.jpg/3.jpg);
+// the hq variants are the same frames at 480x360
+function youtubeFrameThumbnails(videoId: string): string[] {
+  return [1, 2, 3].map((n) => `https://i.ytimg.com/vi/${videoId}/hq${n}.jpg`);
+}
+
 async function getYouTubeMetadata(videoId: string): Promise<YouTubeMetadata> {
   const YOUTUBE_API_KEY = Deno.env.get("YOUTUBE_API_KEY");
   
@@ -96,10 +328,11 @@ async function getYouTubeMetadata(videoId: string): Promise<YouTubeMetadata> {
                       thumbnails.default?.url ||
                       `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`;
 
-    const { captionsAvailable, captionsText } = await fetchCaptions(videoId, YOUTUBE_API_KEY);
-    const commentKeywords = await fetchCommentKeywords(videoId, YOUTUBE_API_KEY);
+    const { captionsAvailable, captionsText, captionLines } = await fetchCaptions(videoId);
+    const comments = await fetchComments(videoId, YOUTUBE_API_KEY);
 
     return {
+      platform: "youtube",
       title: snippet.title || "",
       description: snippet.description || "",
       thumbnail,
@@ -107,7 +340,12 @@ async function getYouTubeMetadata(videoId: string): Promise<YouTubeMetadata> {
       publishedAt: snippet.publishedAt || "",
       captionsAvailable,
       captionsText,
-      commentKeywords,
+      captionLines,
+      commentKeywords: extractKeywordsFromComments(comments),
+      timestampedComments: extractTimestampedComments(comments),
+      chapters: parseChapters(snippet.description || ""),
+      hashtags: extractHashtags(`${snippet.title || ""} ${snippet.description || ""}`),
+      frameThumbnails: youtubeFrameThumbnails(videoId),
     };
   } catch (error) {
     console.error("YouTube API error:", error);
@@ -117,6 +355,8 @@ async function getYouTubeMetadata(videoId: string): Promise<YouTubeMetadata> {
 
 async function getYouTubeMetadataFallback(videoId: string): Promise<YouTubeMetadata> {
   const oembedUrl = `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`;
+  // Caption tracks come from the watch page, so they are available without an API key too
+  const captions = await fetchCaptions(videoId);
   
   try {
     const response = await fetch(oembedUrl);
@@ -125,364 +365,2731 @@ async function getYouTubeMetadataFallback(videoId: string): Promise<YouTubeMetad
     const data = await response.json();
     
     return {
+      platform: "youtube",
       title: data.title || "",
       description: "",
       thumbnail: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
       channelTitle: data.author_name || "",
       publishedAt: "",
-      captionsAvailable: false,
-      captionsText: "",
+      ...captions,
       commentKeywords: [],
+      timestampedComments: [],
+      chapters: [],
+      hashtags: extractHashtags(data.title || ""),
+      frameThumbnails: youtubeFrameThumbnails(videoId),
     };
   } catch (error) {
     console.error("oEmbed error:", error);
     return {
+      platform: "youtube",
       title: "",
       description: "",
       thumbnail: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
       channelTitle: "",
       publishedAt: "",
-      captionsAvailable: false,
-      captionsText: "",
+      ...captions,
       commentKeywords: [],
+      timestampedComments: [],
+      chapters: [],
+      hashtags: [],
+      frameThumbnails: youtubeFrameThumbnails(videoId),
     };
   }
 }
 
-async function fetchCaptions(videoId: string, apiKey: string): Promise<{ captionsAvailable: boolean; captionsText: string }> {
-  try {
-    const captionsResponse = await fetch(
-      `https://www.googleapis.com/youtube/v3/captions?part=snippet&videoId=${videoId}&key=${apiKey}`
-    );
+// TikTok has no public metadata API, so the caption, author and thumbnail come from oEmbed
+async function getTikTokMetadata(videoUrl: string): Promise<YouTubeMetadata> {
+  let resolvedUrl = videoUrl;
 
-    if (!captionsResponse.ok) {
-      return { captionsAvailable: false, captionsText: "" };
+  // Short links (vm.tiktok.com, /t/) must be resolved before oEmbed will accept them
+  if (!/\/video\/\d+/.test(videoUrl)) {
+    try {
+      const redirectResponse = await fetch(videoUrl, { redirect: "follow" });
+      resolvedUrl = redirectResponse.url || videoUrl;
+    } catch (error) {
+      console.error("TikTok redirect error:", error);
     }
+  }
 
-    const captionsData = await captionsResponse.json();
-    
-    if (!captionsData.items || captionsData.items.length === 0) {
-      return { captionsAvailable: false, captionsText: "" };
-    }
+  const videoIdMatch = resolvedUrl.match(/\/video\/(\d+)/);
+  // TikTok video ids carry the upload time (unix seconds) in their upper 32 bits
+  const publishedAt = videoIdMatch
+    ? new Date(Number(BigInt(videoIdMatch[1]) >> 32n) * 1000).toISOString()
+    : "";
 
-    return { 
-      captionsAvailable: true, 
-      captionsText: `[Captions available in ${captionsData.items.map((c: any) => c.snippet.language).join(", ")}]`
+  try {
+    const response = await fetch(`https://www.tiktok.com/oembed?url=${encodeURIComponent(resolvedUrl)}`);
+    if (!response.ok) throw new Error("Failed to fetch TikTok metadata");
+
+    const data = await response.json();
+    const caption: string = data.title || "";
+    const captionWithoutTags = stripHashtags(caption);
+
+    return {
+      platform: "tiktok",
+      title: captionWithoutTags || caption,
+      description: caption,
+      thumbnail: data.thumbnail_url || "",
+      channelTitle: data.author_name || data.author_unique_id || "",
+      publishedAt,
+      captionsAvailable: false,
+      captionsText: "",
+      captionLines: [],
+      commentKeywords: [],
+      timestampedComments: [],
+      chapters: [],
+      hashtags: extractHashtags(caption),
+      frameThumbnails: [],
     };
   } catch (error) {
-    console.error("Error fetching captions:", error);
-    return { captionsAvailable: false, captionsText: "" };
+    console.error("TikTok oEmbed error:", error);
+    return { ...emptyMetadata("tiktok"), publishedAt };
   }
 }
 
-async function fetchCommentKeywords(videoId: string, apiKey: string): Promise<string[]> {
-  try {
-    const commentsResponse = await fetch(
-      `https://www.googleapis.com/youtube/v3/commentThreads?part=snippet&videoId=${videoId}&maxResults=50&order=relevance&key=${apiKey}`
-    );
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
 
-    if (!commentsResponse.ok) {
-      return [];
-    }
+function parseOpenGraph(html: string): Record<string, string> {
+  const tags: Record<string, string> = {};
 
-    const commentsData = await commentsResponse.json();
-    
-    if (!commentsData.items || commentsData.items.length === 0) {
-      return [];
+  for (const match of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const tag = match[0];
+    const key = tag.match(/(?:property|name)=["']([^"']+)["']/i)?.[1];
+    const content = tag.match(/content=(["'])([\s\S]*?)\1/i)?.[2];
+    if (key && content !== undefined && !(key in tags)) {
+      tags[key] = decodeHtmlEntities(content);
     }
+  }
 
-    const commentTexts = commentsData.items.map(
-      (item: any) => item.snippet.topLevelComment.snippet.textDisplay
-    );
+  return tags;
+}
 
-    return extractKeywordsFromComments(commentTexts);
+// Most video sites only serve OpenGraph tags to known link-preview crawlers
+async function fetchOpenGraph(pageUrl: string, label: string): Promise<Record<string, string>> {
+  try {
+    const pageResponse = await fetch(pageUrl, {
+      headers: { "User-Agent": "facebookexternalhit/1.1 (+http://www.facebook.com/externalhit_uatext.php)" },
+    });
+    if (!pageResponse.ok) {
+      console.error(`${label} page error:`, pageResponse.status);
+      return {};
+    }
+    return parseOpenGraph(await pageResponse.text());
   } catch (error) {
-    console.error("Error fetching comments:", error);
-    return [];
+    console.error(`${label} page error:`, error);
+    return {};
   }
 }
 
-function extractKeywordsFromComments(comments: string[]): string[] {
-  const allText = comments.join(" ").toLowerCase();
-  
-  const moviePatterns = [
-    /(?:this is from|this movie is|the movie|from the film|scene from)\s+["']?([^"'\n.!?]+)["']?/gi,
-    /["']([^"']+)["']\s+(?:movie|film)/gi,
-  ];
-  
-  const keywords: Set<string> = new Set();
-  
-  for (const pattern of moviePatterns) {
-    const matches = allText.matchAll(pattern);
-    for (const match of matches) {
-      if (match[1]) {
-        const cleaned = match[1].trim().slice(0, 50);
-        if (cleaned.length > 2) {
-          keywords.add(cleaned);
-        }
+// Instagram and Facebook oEmbed needs an app token, so OpenGraph is the primary source
+async function getMetaVideoMetadata(videoUrl: string, platform: "instagram" | "facebook"): Promise<YouTubeMetadata> {
+  const label = platform === "instagram" ? "Instagram" : "Facebook";
+  const og = await fetchOpenGraph(videoUrl, label);
+
+  let oembedAuthor = "";
+  let oembedThumbnail = "";
+  const FACEBOOK_ACCESS_TOKEN = Deno.env.get("FACEBOOK_ACCESS_TOKEN");
+
+  if (FACEBOOK_ACCESS_TOKEN) {
+    const endpoint = platform === "instagram" ? "instagram_oembed" : "oembed_video";
+    try {
+      const oembedResponse = await fetch(
+        `https://graph.facebook.com/v19.0/${endpoint}?url=${encodeURIComponent(videoUrl)}&omitscript=true&access_token=${FACEBOOK_ACCESS_TOKEN}`
+      );
+      if (oembedResponse.ok) {
+        const data = await oembedResponse.json();
+        oembedAuthor = data.author_name || "";
+        oembedThumbnail = data.thumbnail_url || "";
       }
+    } catch (error) {
+      console.error(`${label} oEmbed error:`, error);
     }
   }
 
-  const capitalizedPattern = /\b([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\b/g;
-  const fullText = comments.join(" ");
-  const capitalizedMatches = fullText.matchAll(capitalizedPattern);
-  const phraseCount = new Map<string, number>();
-  
-  for (const match of capitalizedMatches) {
-    const phrase = match[1];
-    const commonWords = ["The", "This", "That", "What", "When", "Where", "How", "Why", "I", "You", "He", "She", "It", "We", "They", "And", "But", "Or"];
-    if (phrase.length > 3 && !commonWords.includes(phrase)) {
-      phraseCount.set(phrase, (phraseCount.get(phrase) || 0) + 1);
-    }
-  }
-  
-  for (const [phrase, count] of phraseCount) {
-    if (count >= 2) {
-      keywords.add(phrase.toLowerCase());
-    }
-  }
+  const ogTitle = og["og:title"] || "";
+  const ogDescription = og["og:description"] || "";
 
-  return Array.from(keywords).slice(0, 10);
+  // Instagram descriptions look like: `12K likes, 80 comments - user on March 3, 2024: "caption"`
+  const instagramMatch = ogDescription.match(/-\s*([\w.]+)\s+on\s+([A-Z][a-z]+ \d{1,2}, \d{4}):\s*"([\s\S]*)"\.?\s*$/);
+  const caption = instagramMatch ? instagramMatch[3] : ogDescription || ogTitle;
+  const author = oembedAuthor || instagramMatch?.[1] || ogTitle.match(/^(.+?) on (?:Instagram|Facebook)/)?.[1] || "";
+  const publishedDate = instagramMatch ? new Date(instagramMatch[2]) : null;
+
+  const captionWithoutTags = stripHashtags(caption);
+  const title = platform === "facebook" && ogTitle && !ogTitle.includes(" on Facebook")
+    ? ogTitle
+    : captionWithoutTags.slice(0, 150);
+
+  return {
+    platform,
+    title,
+    description: caption,
+    thumbnail: oembedThumbnail || og["og:image"] || "",
+    channelTitle: author,
+    publishedAt: publishedDate && !isNaN(publishedDate.getTime()) ? publishedDate.toISOString() : "",
+    captionsAvailable: false,
+    captionsText: "",
+    captionLines: [],
+    commentKeywords: [],
+    timestampedComments: [],
+    chapters: [],
+    hashtags: extractHashtags(`${ogTitle} ${caption}`),
+    frameThumbnails: [],
+  };
 }
 
-// Enhanced AI identification to return top 3 matches with confidence and reasons
-async function identifyMoviesWithAI(metadata: YouTubeMetadata): Promise<{ matches: Array<{ movieTitle: string; confidence: number; reasons: string[] }>; detailedReasoning: string }> {
-  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-  if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
+async function getVimeoMetadata(videoUrl: string): Promise<YouTubeMetadata> {
+  try {
+    const response = await fetch(`https://vimeo.com/api/oembed.json?url=${encodeURIComponent(videoUrl)}`);
+    if (!response.ok) throw new Error("Failed to fetch Vimeo metadata");
 
-  const contextParts: string[] = [];
-  
-  contextParts.push(`Video Title: ${metadata.title}`);
-  contextParts.push(`Channel: ${metadata.channelTitle}`);
-  
-  if (metadata.publishedAt) {
-    contextParts.push(`Published: ${metadata.publishedAt}`);
-  }
-  
-  if (metadata.description) {
-    const truncatedDesc = metadata.description.slice(0, 1000);
-    contextParts.push(`Description: ${truncatedDesc}`);
-  }
-  
-  contextParts.push(`Thumbnail URL: ${metadata.thumbnail}`);
-  
-  if (metadata.captionsAvailable) {
-    contextParts.push(`Captions: ${metadata.captionsText}`);
-  }
-  
-  if (metadata.commentKeywords.length > 0) {
-    contextParts.push(`Keywords from comments: ${metadata.commentKeywords.join(", ")}`);
+    const data = await response.json();
+    const title: string = data.title || "";
+    const description: string = data.description || "";
+    // upload_date is "YYYY-MM-DD HH:MM:SS" in UTC
+    const uploadDate = data.upload_date ? new Date(`${data.upload_date.replace(" ", "T")}Z`) : null;
+
+    return {
+      ...emptyMetadata("vimeo"),
+      title,
+      description,
+      thumbnail: data.thumbnail_url || "",
+      channelTitle: data.author_name || "",
+      publishedAt: uploadDate && !isNaN(uploadDate.getTime()) ? uploadDate.toISOString() : "",
+      chapters: parseChapters(description),
+      hashtags: extractHashtags(`${title} ${description}`),
+    };
+  } catch (error) {
+    console.error("Vimeo oEmbed error:", error);
+    return emptyMetadata("vimeo");
   }
+}
 
-  const prompt = `You are a movie identification expert. Based on the following video metadata from YouTube, identify the TOP 3 most likely movies this clip could be from, ranked by confidence.
+async function getDailymotionMetadata(videoUrl: string): Promise<YouTubeMetadata> {
+  const videoId = extractDailymotionId(videoUrl);
+  if (!videoId) return emptyMetadata("dailymotion");
 
-${contextParts.join("\n")}
+  try {
+    const response = await fetch(
+      `https://api.dailymotion.com/video/${videoId}?fields=title,description,owner.screenname,thumbnail_720_url,created_time,tags`
+    );
+    if (!response.ok) throw new Error("Failed to fetch Dailymotion metadata");
 
-Analyze all available information carefully. Consider:
-- The video title often contains the movie name
-- Channel names that might indicate official movie channels
-- Keywords from the description and comments
-- Publication date may hint at the movie's era
-- Comment keywords often mention the movie name directly
+    const data = await response.json();
+    const title: string = data.title || "";
+    const description: string = data.description || "";
+    const tags: string[] = (data.tags || []).map((tag: string) => `#${tag.trim().replace(/\s+/g, "_")}`);
 
-Respond with a JSON object containing:
-1. "matches": An array of exactly 3 objects, each with:
-   - "movieTitle": The exact movie title (just the title, no year)
-   - "confidence": A percentage (integer 1-100) of how confident you are. The sum should be close to 100.
-   - "reasons": An array of 2-4 short strings explaining why this movie matches (e.g., "Title mentions 'The Flash'", "Comments reference 'Barry Allen'", "Channel is official Warner Bros")
-2. "detailedReasoning": A human-readable paragraph (3-4 sentences) explaining your analysis process and key evidence
+    return {
+      ...emptyMetadata("dailymotion"),
+      title,
+      description,
+      thumbnail: data.thumbnail_720_url || "",
+      channelTitle: data["owner.screenname"] || "",
+      publishedAt: data.created_time ? new Date(data.created_time * 1000).toISOString() : "",
+      chapters: parseChapters(description),
+      hashtags: extractHashtags(`${title} ${description} ${tags.join(" ")}`),
+    };
+  } catch (error) {
+    console.error("Dailymotion API error:", error);
+    return emptyMetadata("dailymotion");
+  }
+}
 
-The first match should be your best guess with highest confidence.
-Only respond with valid JSON, no additional text.`;
+async function getTwitchAccessToken(clientId: string, clientSecret: string): Promise<string | null> {
+  try {
+    const response = await fetch(
+      `https://id.twitch.tv/oauth2/token?client_id=${clientId}&client_secret=${clientSecret}&grant_type=client_credentials`,
+      { method: "POST" }
+    );
+    if (!response.ok) return null;
 
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${LOVABLE_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "google/gemini-2.5-flash",
-      messages: [
-        { role: "system", content: "You are a movie identification expert. Always respond with valid JSON only." },
-        { role: "user", content: prompt },
-      ],
-    }),
-  });
+    const data = await response.json();
+    return data.access_token || null;
+  } catch (error) {
+    console.error("Twitch auth error:", error);
+    return null;
+  }
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("AI API error:", response.status, errorText);
-    
-    if (response.status === 429) {
-      throw new Error("Rate limit exceeded. Please try again in a moment.");
-    }
-    if (response.status === 402) {
-      throw new Error("AI service payment required. Please check your account.");
+async function getTwitchClipMetadata(videoUrl: string): Promise<YouTubeMetadata> {
+  const slug = extractTwitchClipSlug(videoUrl);
+  if (!slug) return emptyMetadata("twitch");
+
+  const TWITCH_CLIENT_ID = Deno.env.get("TWITCH_CLIENT_ID");
+  const TWITCH_CLIENT_SECRET = Deno.env.get("TWITCH_CLIENT_SECRET");
+  const accessToken = TWITCH_CLIENT_ID && TWITCH_CLIENT_SECRET
+    ? await getTwitchAccessToken(TWITCH_CLIENT_ID, TWITCH_CLIENT_SECRET)
+    : null;
+
+  if (accessToken) {
+    try {
+      const response = await fetch(`https://api.twitch.tv/helix/clips?id=${slug}`, {
+        headers: { "Client-Id": TWITCH_CLIENT_ID!, Authorization: `Bearer ${accessToken}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const clip = data.data?.[0];
+        if (clip) {
+          return {
+            ...emptyMetadata("twitch"),
+            title: clip.title || "",
+            thumbnail: clip.thumbnail_url || "",
+            channelTitle: clip.broadcaster_name || "",
+            publishedAt: clip.created_at || "",
+            hashtags: extractHashtags(clip.title || ""),
+          };
+        }
+      }
+    } catch (error) {
+      console.error("Twitch API error:", error);
     }
-    throw new Error("Failed to identify movie with AI");
   }
 
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-  
-  if (!content) throw new Error("No response from AI");
-  
-  let jsonStr = content.trim();
-  if (jsonStr.startsWith("```")) {
-    jsonStr = jsonStr.replace(/```json?\n?/g, "").replace(/```/g, "").trim();
-  }
-  
-  const result = JSON.parse(jsonStr);
+  console.log("Twitch API unavailable, falling back to OpenGraph");
+  const og = await fetchOpenGraph(`https://clips.twitch.tv/${slug}`, "Twitch");
+  const ogTitle = og["og:title"] || "";
+
   return {
-    matches: result.matches,
-    detailedReasoning: result.detailedReasoning,
+    ...emptyMetadata("twitch"),
+    title: ogTitle.replace(/\s*-\s*\S+ on Twitch$/, ""),
+    description: og["og:description"] || "",
+    thumbnail: og["og:image"] || "",
+    channelTitle: ogTitle.match(/-\s*(\S+) on Twitch$/)?.[1] || "",
+    hashtags: extractHashtags(ogTitle),
   };
 }
 
-async function getMovieFromTMDB(movieTitle: string): Promise<MovieResult | null> {
-  const TMDB_API_KEY = Deno.env.get("TMDB_API_KEY");
-  if (!TMDB_API_KEY) throw new Error("TMDB_API_KEY is not configured");
+interface RedditChild {
+  kind: string;
+  data: { body?: string };
+}
 
-  const searchUrl = `https://api.themoviedb.org/3/search/movie?api_key=${TMDB_API_KEY}&query=${encodeURIComponent(movieTitle)}`;
-  const searchResponse = await fetch(searchUrl);
-  
-  if (!searchResponse.ok) {
-    console.error("TMDB search error:", await searchResponse.text());
-    return null;
+// Reddit rejects requests without a descriptive User-Agent
+const REDDIT_USER_AGENT = "web:clipit-identify-movie:v1.0";
+
+async function getRedditMetadata(videoUrl: string): Promise<YouTubeMetadata> {
+  let postUrl = videoUrl;
+
+  // v.redd.it links redirect to the post that hosts the video
+  if (/v\.redd\.it\//.test(videoUrl)) {
+    try {
+      const redirectResponse = await fetch(videoUrl, { redirect: "follow", headers: { "User-Agent": REDDIT_USER_AGENT } });
+      postUrl = redirectResponse.url || videoUrl;
+    } catch (error) {
+      console.error("Reddit redirect error:", error);
+    }
+  }
+
+  const postId = postUrl.match(/reddit\.com\/r\/[^/]+\/comments\/([A-Za-z0-9]+)/)?.[1];
+  if (!postId) return emptyMetadata("reddit");
+
+  try {
+    const response = await fetch(`https://www.reddit.com/comments/${postId}.json?limit=50&sort=top`, {
+      headers: { "User-Agent": REDDIT_USER_AGENT },
+    });
+    if (!response.ok) throw new Error("Failed to fetch Reddit post");
+
+    const [postListing, commentListing] = await response.json();
+    const post = postListing.data.children[0].data;
+    const commentTexts = (commentListing.data.children as RedditChild[])
+      .filter((child) => child.kind === "t1" && child.data.body)
+      .map((child) => child.data.body!);
+
+    const title: string = post.title || "";
+    const description = [post.link_flair_text, post.selftext].filter(Boolean).join("\n");
+    const previewImage: string = post.preview?.images?.[0]?.source?.url || "";
+
+    return {
+      ...emptyMetadata("reddit"),
+      title,
+      description,
+      thumbnail: decodeHtmlEntities(previewImage) || (post.thumbnail?.startsWith("http") ? post.thumbnail : ""),
+      channelTitle: post.subreddit_name_prefixed || "",
+      publishedAt: post.created_utc ? new Date(post.created_utc * 1000).toISOString() : "",
+      commentKeywords: extractKeywordsFromComments(commentTexts),
+      timestampedComments: extractTimestampedComments(commentTexts),
+      chapters: parseChapters(description),
+      hashtags: extractHashtags(`${title} ${description}`),
+    };
+  } catch (error) {
+    console.error("Reddit API error:", error);
+    return emptyMetadata("reddit");
+  }
+}
+
+// X/Twitter oEmbed returns the post as an embeddable blockquote; the text is pulled out of it
+async function getTweetMetadata(videoUrl: string): Promise<YouTubeMetadata> {
+  const tweetUrl = videoUrl.replace(/^(?:https?:\/\/)?(?:www\.|mobile\.)?x\.com/, "https://twitter.com");
+
+  try {
+    const response = await fetch(
+      `https://publish.twitter.com/oembed?url=${encodeURIComponent(tweetUrl)}&omit_script=true`
+    );
+    if (!response.ok) throw new Error("Failed to fetch X/Twitter metadata");
+
+    const data = await response.json();
+    const html: string = data.html || "";
+    const paragraph = html.match(/<p[^>]*>([\s\S]*?)<\/p>/)?.[1] || "";
+    const text = decodeHtmlEntities(paragraph.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "")).trim();
+    const dateText = html.match(/>([A-Z][a-z]+ \d{1,2}, \d{4})<\/a><\/blockquote>/)?.[1];
+    const publishedDate = dateText ? new Date(dateText) : null;
+
+    return {
+      ...emptyMetadata("twitter"),
+      title: stripHashtags(text).replace(/pic\.twitter\.com\/\S+|https?:\/\/t\.co\/\S+/g, "").trim().slice(0, 150),
+      description: text,
+      channelTitle: data.author_name || "",
+      publishedAt: publishedDate && !isNaN(publishedDate.getTime()) ? publishedDate.toISOString() : "",
+      hashtags: extractHashtags(text),
+    };
+  } catch (error) {
+    console.error("X/Twitter oEmbed error:", error);
+    return emptyMetadata("twitter");
+  }
+}
+
+interface CaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  kind?: string;
+}
+
+interface TimedTextEvent {
+  tStartMs?: number;
+  segs?: Array<{ utf8?: string }>;
+}
+
+// Pull a JSON array value out of a page script by bracket matching, since it may contain nested arrays
+function extractJsonArray(source: string, key: string): unknown[] | null {
+  const keyIndex = source.indexOf(`"${key}":`);
+  if (keyIndex === -1) return null;
+
+  const start = source.indexOf("[", keyIndex);
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]" && --depth === 0) {
+      try {
+        return JSON.parse(source.slice(start, i + 1));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+// Manual English captions are the most accurate, then any manual track, then auto-generated ones
+function pickCaptionTrack(tracks: CaptionTrack[]): CaptionTrack | undefined {
+  const isEnglish = (t: CaptionTrack) => t.languageCode.startsWith("en");
+  const isManual = (t: CaptionTrack) => t.kind !== "asr";
+
+  return tracks.find((t) => isManual(t) && isEnglish(t))
+    || tracks.find(isManual)
+    || tracks.find(isEnglish)
+    || tracks[0];
+}
+
+function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+const CAPTION_EXCERPT_LENGTH = 2000;
+const CAPTION_EXCERPT_WINDOWS = 4;
+
+const FOCUS_WINDOW_BEFORE = 45;
+const FOCUS_WINDOW_AFTER = 90;
+
+// Short clips fit whole; longer transcripts are sampled as evenly spaced runs of consecutive lines.
+// With a focus time only the dialogue around that moment is kept.
+function buildCaptionExcerpt(lines: CaptionLine[], focusTime?: number): string {
+  const format = (line: CaptionLine) => `[${formatTimestamp(line.start)}] ${line.text}`;
+
+  if (focusTime !== undefined) {
+    const focused = lines
+      .filter((line) => line.start >= focusTime - FOCUS_WINDOW_BEFORE && line.start <= focusTime + FOCUS_WINDOW_AFTER)
+      .map(format)
+      .join("\n");
+    if (focused) return focused.slice(0, CAPTION_EXCERPT_LENGTH);
+  }
+
+  const formatted = lines.map(format);
+
+  if (formatted.join("\n").length <= CAPTION_EXCERPT_LENGTH) {
+    return formatted.join("\n");
+  }
+
+  const windowLength = CAPTION_EXCERPT_LENGTH / CAPTION_EXCERPT_WINDOWS;
+  const windows: string[] = [];
+
+  for (let w = 0; w < CAPTION_EXCERPT_WINDOWS; w++) {
+    const windowLines: string[] = [];
+    let length = 0;
+    for (let i = Math.floor((lines.length * w) / CAPTION_EXCERPT_WINDOWS); i < lines.length && length < windowLength; i++) {
+      windowLines.push(formatted[i]);
+      length += formatted[i].length + 1;
+    }
+    windows.push(windowLines.join("\n"));
+  }
+
+  return windows.join("\n...\n");
+}
+
+async function fetchCaptions(videoId: string): Promise<{ captionsAvailable: boolean; captionsText: string; captionLines: CaptionLine[] }> {
+  const none = { captionsAvailable: false, captionsText: "", captionLines: [] };
+
+  try {
+    // The Data API only lets video owners download tracks, so the track list comes from the watch page
+    const pageResponse = await fetch(`https://www.youtube.com/watch?v=${videoId}&hl=en`, {
+      headers: { "Accept-Language": "en-US,en;q=0.9", Cookie: "CONSENT=YES+1" },
+    });
+
+    if (!pageResponse.ok) {
+      return none;
+    }
+
+    const tracks = extractJsonArray(await pageResponse.text(), "captionTracks") as CaptionTrack[] | null;
+    const track = tracks ? pickCaptionTrack(tracks) : undefined;
+    
+    if (!track) {
+      return none;
+    }
+
+    const trackResponse = await fetch(`${track.baseUrl}&fmt=json3`);
+    if (!trackResponse.ok) {
+      return none;
+    }
+
+    const trackData = await trackResponse.json();
+    const captionLines: CaptionLine[] = ((trackData.events || []) as TimedTextEvent[])
+      .map((event) => ({
+        start: (event.tStartMs || 0) / 1000,
+        text: (event.segs || []).map((seg) => seg.utf8 || "").join("").replace(/\s+/g, " ").trim(),
+      }))
+      .filter((line) => line.text.length > 0);
+
+    if (captionLines.length === 0) {
+      return none;
+    }
+
+    console.log("Captions fetched:", track.languageCode, track.kind === "asr" ? "(auto-generated)" : "", captionLines.length, "lines");
+
+    return { 
+      captionsAvailable: true, 
+      captionsText: buildCaptionExcerpt(captionLines),
+      captionLines,
+    };
+  } catch (error) {
+    console.error("Error fetching captions:", error);
+    return none;
+  }
+}
+
+interface CommentThread {
+  snippet: { topLevelComment: { snippet: { textOriginal?: string; textDisplay: string } } };
+}
+
+async function fetchComments(videoId: string, apiKey: string): Promise<string[]> {
+  try {
+    const commentsResponse = await fetch(
+      `https://www.googleapis.com/youtube/v3/commentThreads?part=snippet&videoId=${videoId}&maxResults=50&order=relevance&key=${apiKey}`
+    );
+
+    if (!commentsResponse.ok) {
+      return [];
+    }
+
+    const commentsData = await commentsResponse.json();
+    
+    if (!commentsData.items || commentsData.items.length === 0) {
+      return [];
+    }
+
+    // textOriginal keeps timestamps as plain "3:45" instead of HTML links
+    return (commentsData.items as CommentThread[]).map(
+      (item) => item.snippet.topLevelComment.snippet.textOriginal || item.snippet.topLevelComment.snippet.textDisplay
+    );
+  } catch (error) {
+    console.error("Error fetching comments:", error);
+    return [];
+  }
+}
+
+const MAX_PLAYLIST_VIDEOS = 50;
+
+interface PlaylistVideo {
+  videoId: string;
+  title: string;
+}
+
+interface Playlist {
+  id: string;
+  title: string;
+  videos: PlaylistVideo[];
+}
+
+interface PlaylistItemResource {
+  snippet: { title: string; resourceId?: { videoId?: string } };
+}
+
+// Playlist links carry list= without a video id; watch?v=...&list=... still identifies the single video
+function extractPlaylistId(url: string): string | null {
+  if (!/youtube\.com\//.test(url) || /[?&]v=/.test(url)) return null;
+  return url.match(/[?&]list=([A-Za-z0-9_-]+)/)?.[1] ?? null;
+}
+
+async function getPlaylist(playlistId: string): Promise<Playlist> {
+  const YOUTUBE_API_KEY = Deno.env.get("YOUTUBE_API_KEY");
+
+  if (YOUTUBE_API_KEY) {
+    try {
+      const playlistResponse = await fetch(
+        `https://www.googleapis.com/youtube/v3/playlists?part=snippet&id=${playlistId}&key=${YOUTUBE_API_KEY}`
+      );
+      const playlistData = playlistResponse.ok ? await playlistResponse.json() : null;
+
+      const videos: PlaylistVideo[] = [];
+      let pageToken = "";
+      do {
+        const itemsResponse = await fetch(
+          `https://www.googleapis.com/youtube/v3/playlistItems?part=snippet&maxResults=50&playlistId=${playlistId}&key=${YOUTUBE_API_KEY}${pageToken ? `&pageToken=${pageToken}` : ""}`
+        );
+        if (!itemsResponse.ok) throw new Error(await itemsResponse.text());
+
+        const itemsData = await itemsResponse.json();
+        for (const item of (itemsData.items || []) as PlaylistItemResource[]) {
+          const videoId = item.snippet.resourceId?.videoId;
+          // Removed videos stay in the playlist as placeholders
+          if (!videoId || item.snippet.title === "Private video" || item.snippet.title === "Deleted video") continue;
+          videos.push({ videoId, title: item.snippet.title });
+        }
+        pageToken = itemsData.nextPageToken || "";
+      } while (pageToken && videos.length < MAX_PLAYLIST_VIDEOS);
+
+      return {
+        id: playlistId,
+        title: playlistData?.items?.[0]?.snippet?.title || "",
+        videos: videos.slice(0, MAX_PLAYLIST_VIDEOS),
+      };
+    } catch (error) {
+      console.error("YouTube playlist API error:", error);
+    }
+  }
+
+  // Without an API key, read the video ids embedded in the playlist page (the first 100 items)
+  const pageResponse = await fetch(`https://www.youtube.com/playlist?list=${playlistId}&hl=en`, {
+    headers: { "Accept-Language": "en-US,en;q=0.9", Cookie: "CONSENT=YES+1" },
+  });
+  if (!pageResponse.ok) {
+    throw new Error("Could not fetch playlist information");
+  }
+
+  const html = await pageResponse.text();
+  const videos: PlaylistVideo[] = [];
+  const seen = new Set<string>();
+
+  for (const match of html.matchAll(/"playlistVideoRenderer":\{"videoId":"([A-Za-z0-9_-]{11})"/g)) {
+    if (seen.has(match[1])) continue;
+    seen.add(match[1]);
+    videos.push({ videoId: match[1], title: "" });
+  }
+
+  return {
+    id: playlistId,
+    title: parseOpenGraph(html)["og:title"] || "",
+    videos: videos.slice(0, MAX_PLAYLIST_VIDEOS),
+  };
+}
+
+// "3:45 the part from Heat" -> { time: 225, text: "the part from Heat" }
+function extractTimestampedComments(comments: string[]): TimestampedComment[] {
+  const results: TimestampedComment[] = [];
+
+  for (const comment of comments) {
+    const matches = Array.from(comment.matchAll(TIMESTAMP_PATTERN));
+    matches.forEach((match, index) => {
+      const textStart = match.index! + match[0].length;
+      const textEnd = matches[index + 1]?.index ?? comment.length;
+      const text = comment.slice(textStart, textEnd).replace(/^[\s\-–—:|]+/, "").replace(/\s+/g, " ").trim();
+      results.push({ time: timestampToSeconds(match), text: (text || comment.replace(/\s+/g, " ").trim()).slice(0, 150) });
+    });
+  }
+
+  return results.sort((a, b) => a.time - b.time).slice(0, 30);
+}
+
+function formatChapter(chapter: Chapter): string {
+  const range = `${formatTimestamp(chapter.start)}${chapter.end !== undefined ? `–${formatTimestamp(chapter.end)}` : " onwards"}`;
+  return `[${range}] ${chapter.title}${chapter.movieHint ? ` (possible movie: ${chapter.movieHint})` : ""}`;
+}
+
+function extractKeywordsFromComments(comments: string[]): string[] {
+  const allText = comments.join(" ").toLowerCase();
+  
+  const moviePatterns = [
+    /(?:this is from|this movie is|the movie|from the film|scene from)\s+["']?([^"'\n.!?]+)["']?/gi,
+    /["']([^"']+)["']\s+(?:movie|film)/gi,
+  ];
+  
+  const keywords: Set<string> = new Set();
+  
+  for (const pattern of moviePatterns) {
+    const matches = allText.matchAll(pattern);
+    for (const match of matches) {
+      if (match[1]) {
+        const cleaned = match[1].trim().slice(0, 50);
+        if (cleaned.length > 2) {
+          keywords.add(cleaned);
+        }
+      }
+    }
+  }
+
+  const capitalizedPattern = /\b([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\b/g;
+  const fullText = comments.join(" ");
+  const capitalizedMatches = fullText.matchAll(capitalizedPattern);
+  const phraseCount = new Map<string, number>();
+  
+  for (const match of capitalizedMatches) {
+    const phrase = match[1];
+    const commonWords = ["The", "This", "That", "What", "When", "Where", "How", "Why", "I", "You", "He", "She", "It", "We", "They", "And", "But", "Or"];
+    if (phrase.length > 3 && !commonWords.includes(phrase)) {
+      phraseCount.set(phrase, (phraseCount.get(phrase) || 0) + 1);
+    }
+  }
+  
+  for (const [phrase, count] of phraseCount) {
+    if (count >= 2) {
+      keywords.add(phrase.toLowerCase());
+    }
+  }
+
+  return Array.from(keywords).slice(0, 10);
+}
+
+// Adapters are tried in order; the first whose matcher accepts the URL handles the request
+const sourceAdapters: SourceAdapter[] = [
+  {
+    id: "youtube",
+    label: "YouTube",
+    capabilities: { captions: true, comments: true, description: true },
+    matches: (url) => extractVideoId(url) !== null,
+    fetchMetadata: (url) => getYouTubeMetadata(extractVideoId(url)!),
+  },
+  {
+    id: "tiktok",
+    label: "TikTok",
+    capabilities: { captions: false, comments: false, description: true },
+    matches: isTikTokUrl,
+    fetchMetadata: getTikTokMetadata,
+  },
+  {
+    id: "instagram",
+    label: "Instagram",
+    capabilities: { captions: false, comments: false, description: true },
+    matches: isInstagramUrl,
+    fetchMetadata: (url) => getMetaVideoMetadata(url, "instagram"),
+  },
+  {
+    id: "facebook",
+    label: "Facebook",
+    capabilities: { captions: false, comments: false, description: true },
+    matches: isFacebookVideoUrl,
+    fetchMetadata: (url) => getMetaVideoMetadata(url, "facebook"),
+  },
+  {
+    id: "vimeo",
+    label: "Vimeo",
+    capabilities: { captions: false, comments: false, description: true },
+    matches: (url) => extractVimeoId(url) !== null,
+    fetchMetadata: getVimeoMetadata,
+  },
+  {
+    id: "dailymotion",
+    label: "Dailymotion",
+    capabilities: { captions: false, comments: false, description: true },
+    matches: (url) => extractDailymotionId(url) !== null,
+    fetchMetadata: getDailymotionMetadata,
+  },
+  {
+    id: "twitch",
+    label: "Twitch",
+    capabilities: { captions: false, comments: false, description: false },
+    matches: (url) => extractTwitchClipSlug(url) !== null,
+    fetchMetadata: getTwitchClipMetadata,
+  },
+  {
+    id: "reddit",
+    label: "Reddit",
+    capabilities: { captions: false, comments: true, description: true },
+    matches: isRedditVideoUrl,
+    fetchMetadata: getRedditMetadata,
+  },
+  {
+    id: "twitter",
+    label: "X/Twitter",
+    capabilities: { captions: false, comments: false, description: true },
+    matches: (url) => extractTweetId(url) !== null,
+    fetchMetadata: getTweetMetadata,
+  },
+];
+
+function findSourceAdapter(url: string): SourceAdapter | null {
+  return sourceAdapters.find((adapter) => adapter.matches(url)) ?? null;
+}
+
+function getSourceLabel(platform: VideoPlatform): string {
+  return sourceAdapters.find((adapter) => adapter.id === platform)?.label ?? platform;
+}
+
+// Read the movie or series straight from official clip titles; no AI call needed once TMDB confirms it
+function identifyFromOfficialClipTitle(metadata: YouTubeMetadata): AIIdentification | null {
+  if (metadata.platform !== "youtube" || !metadata.title || !metadata.channelTitle) return null;
+
+  const parsed = parseOfficialClipTitle(metadata.title, metadata.channelTitle);
+  if (!parsed) return null;
+
+  const { movieTitle, year } = parsed;
+  return {
+    matches: [{
+      movieTitle,
+      ...(year ? { year } : {}),
+      confidence: 98,
+      reasons: [
+        "Parsed from official clip title",
+        `Uploaded by ${metadata.channelTitle}`,
+        ...(year ? [`Title gives the release year as ${year}`] : []),
+      ],
+    }],
+    detailedReasoning: `"${metadata.title}" follows ${metadata.channelTitle}'s fixed naming format for official clips, so the title was read directly from it without AI analysis.`,
+  };
+}
+
+// The gateway can't be used right now (no key, rate limited or out of credits); callers may degrade instead of failing
+class AIUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AIUnavailableError";
+  }
+}
+
+// The model kept answering in a shape we can't use, even after being asked to repair it
+class AIResponseError extends Error {
+  constructor(message: string, public readonly issues: string[]) {
+    super(message);
+    this.name = "AIResponseError";
+  }
+}
+
+// Send a chat request to the AI gateway and return the raw text the model replies with
+async function requestAIContent(messages: ChatMessage[]): Promise<string> {
+  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+  if (!LOVABLE_API_KEY) throw new AIUnavailableError("LOVABLE_API_KEY is not configured");
+
+  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${LOVABLE_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "google/gemini-2.5-flash",
+      messages,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("AI API error:", response.status, errorText);
+    
+    if (response.status === 429) {
+      throw new AIUnavailableError("Rate limit exceeded. Please try again in a moment.");
+    }
+    if (response.status === 402) {
+      throw new AIUnavailableError("AI service payment required. Please check your account.");
+    }
+    throw new Error("Failed to identify movie with AI");
+  }
+
+  const data = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+  
+  if (!content) throw new Error("No response from AI");
+  return content;
+}
+
+// Ask for JSON and check it against the expected schema; a bad reply gets one repair attempt
+// with the problems spelled out before giving up with an AIResponseError
+async function requestAIJson<T>(messages: ChatMessage[], validate: AIValidator<T>): Promise<T> {
+  const content = await requestAIContent(messages);
+  const first = parseAIContent(content, validate);
+  if (first.value !== null) return first.value;
+
+  console.warn("AI response failed validation, asking for a repair:", first.issues);
+  const repaired = await requestAIContent([
+    ...messages,
+    { role: "assistant", content },
+    {
+      role: "user",
+      content: `Your reply does not match the required format:\n${first.issues.map((issue) => `- ${issue}`).join("\n")}\n\nReply again with only the corrected JSON object.`,
+    },
+  ]);
+  const second = parseAIContent(repaired, validate);
+  if (second.value !== null) return second.value;
+
+  console.error("AI response still invalid after repair:", second.issues);
+  throw new AIResponseError("The AI returned an unusable answer. Please try again.", second.issues);
+}
+
+const MATCHES_RESPONSE_FORMAT = `Respond with a JSON object containing:
+1. "matches": An array of exactly ${AI_MATCH_COUNT} objects, each with:
+   - "mediaType": "movie" for films, "tv" for TV series, miniseries and animated shows
+   - "movieTitle": The exact movie or series title (just the title, no year)
+   - "year": The release year (first air year for series) as an integer, so remakes and originals can be told apart (e.g. 1984 or 2021 for "Dune")
+   - "originalTitle": The title in its original language if it differs (e.g. "Sen to Chihiro no kamikakushi"), otherwise the same as movieTitle
+   - "season", "episode": For series, the season and episode numbers if the title, description, captions or comments pin them down (e.g. "S02E05", "Season 2 Episode 5", a named episode or plot point), otherwise null
+   - "episodeTitle": For series, the episode's title if known, otherwise null
+   - "isAnime": true for Japanese animation (series or film), otherwise false
+   - "alternativeTitles": For anime, other titles it is known by (romaji, Japanese, English), otherwise an empty array
+   - "arc": For anime, the story arc the clip is from if known (e.g. "Marineford Arc"), otherwise null
+   - "scene": The specific scene in this movie, or null if you can't tell: an object with "description" (one sentence, e.g. "Neo dodges bullets on the rooftop"), "minute" (approximately how many minutes into the movie it happens, integer or null) and "act" (1, 2 or 3 for the setup, middle or finale, or null)
+   - "confidence": A percentage (integer 1-100) of how confident you are. The sum should be close to 100.
+   - "reasons": An array of 2-4 short strings explaining why this movie matches (e.g., "Title mentions 'The Flash'", "Comments reference 'Barry Allen'", "Channel is official Warner Bros")
+2. "detailedReasoning": A human-readable paragraph (3-4 sentences) explaining your analysis process and key evidence
+
+The first match should be your best guess with highest confidence.
+Only respond with valid JSON, no additional text.`;
+
+const CONTENT_TYPE_FORMAT = `Also include "contentType" at the top level, classifying what the clip itself is: "film" (a scene, trailer or edit from a movie), "series" (from a TV or streaming show), "music video", "game" (gameplay or video-game cutscenes), "original content" (vlogs, sketches, reactions, ads and anything else made for the platform) or "unknown". Only say "film" or "series" when the clip really is footage from one; still return your best 3 guesses either way, and explain the classification in "detailedReasoning".`;
+
+const VISUAL_EVIDENCE_FORMAT = `Each match object must also include "visualEvidence": up to 3 things you can actually see in the attached images that support this match, each an object with "type" ("actor", "setting", "text" or "object") and "detail" (e.g. {"type": "actor", "detail": "Keanu Reeves"}, {"type": "text", "detail": "Nakatomi Plaza sign"}). Use an empty array if the images show nothing specific to this movie.`;
+
+const VISUAL_EVIDENCE_LABELS: Record<VisualEvidence["type"], string> = {
+  actor: "Recognized actor",
+  setting: "Recognized setting",
+  text: "On-screen text",
+  object: "Visual detail",
+};
+
+// Visual findings become their own reasons so they read apart from metadata evidence
+function visualEvidenceReasons(evidence: VisualEvidence[] | undefined): MatchReason[] {
+  if (!Array.isArray(evidence)) return [];
+
+  return evidence
+    .filter((item) => item && typeof item.detail === "string" && item.detail.trim())
+    .slice(0, 3)
+    .map((item) => ({
+      kind: "visual",
+      text: `${VISUAL_EVIDENCE_LABELS[item.type] ?? VISUAL_EVIDENCE_LABELS.object}: ${item.detail.trim()}`,
+    }));
+}
+
+const evidenceReasons = (texts: string[]): MatchReason[] => texts.map((text) => ({ kind: "evidence", text }));
+
+const MAX_VISION_IMAGE_BYTES = 1_500_000;
+
+// Images are inlined as data URLs so the AI gateway never has to reach the video host itself
+async function fetchImageAsDataUrl(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url);
+    const contentType = response.headers.get("content-type")?.split(";")[0].trim() || "";
+    if (!response.ok || !contentType.startsWith("image/")) return null;
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length === 0 || bytes.length > MAX_VISION_IMAGE_BYTES) return null;
+
+    return `data:${contentType};base64,${encodeBase64(bytes)}`;
+  } catch (error) {
+    console.error("Error fetching image:", url, error);
+    return null;
+  }
+}
+
+// Japanese script, or the tags anime uploads (AMVs, edits) are usually posted with
+const JAPANESE_SCRIPT_PATTERN = /[\u3040-\u30ff\u4e00-\u9faf]/;
+const ANIME_TAG_PATTERN = /\b(?:anime|amv|animeedit|animeedits|manga|shonen|isekai)\b/i;
+
+function looksLikeAnime(metadata: YouTubeMetadata): boolean {
+  const text = [metadata.title, metadata.description.slice(0, 500), ...metadata.hashtags].join(" ");
+  return JAPANESE_SCRIPT_PATTERN.test(text) || ANIME_TAG_PATTERN.test(text);
+}
+
+const ANIME_HINTS = `ANIME: This looks like an anime clip. Titles may be written in Japanese or romaji, or as fan abbreviations (e.g. "SNK", "JJK"); match them against the English and original titles. AMVs and edits usually cut together fights from one show. Most anime are TV series on TMDB, so use mediaType "tv" unless it is an anime film, and give the season, episode and story arc when the title, description, comments or images make them clear.`;
+
+// Enhanced AI identification to return top 3 matches with confidence and reasons
+async function identifyMoviesWithAI(metadata: YouTubeMetadata, focusTime?: number): Promise<AIIdentification> {
+  const platformLabel = getSourceLabel(metadata.platform);
+  const contextParts: string[] = [];
+  
+  contextParts.push(`Video Title: ${metadata.title}`);
+  contextParts.push(`Channel: ${metadata.channelTitle}`);
+  
+  if (metadata.publishedAt) {
+    contextParts.push(`Published: ${metadata.publishedAt}`);
+  }
+  
+  if (metadata.description) {
+    const truncatedDesc = metadata.description.slice(0, 1000);
+    contextParts.push(`Description: ${truncatedDesc}`);
+  }
+  
+  const [thumbnailImage, ...frameImages] = await Promise.all(
+    [metadata.thumbnail, ...metadata.frameThumbnails].map((url) => (url ? fetchImageAsDataUrl(url) : null))
+  );
+  const stills = frameImages.filter((image): image is string => image !== null);
+  const images = [...(thumbnailImage ? [thumbnailImage] : []), ...stills];
+
+  if (thumbnailImage) {
+    contextParts.push("Attached image 1 is the video thumbnail (it may be a custom promotional image rather than a real frame).");
+  } else if (metadata.thumbnail) {
+    contextParts.push(`Thumbnail URL: ${metadata.thumbnail}`);
+  }
+  if (stills.length > 0) {
+    const first = thumbnailImage ? 2 : 1;
+    contextParts.push(
+      stills.length === 1
+        ? `Attached image ${first} is a still captured from the video.`
+        : `Attached images ${first}-${first + stills.length - 1} are stills captured from early, middle and late in the video.`
+    );
+  }
+  
+  if (metadata.captionsAvailable) {
+    const captionExcerpt = focusTime !== undefined
+      ? buildCaptionExcerpt(metadata.captionLines, focusTime)
+      : metadata.captionsText;
+    contextParts.push(`Caption excerpt (dialogue transcript, [m:ss] timestamps):\n${captionExcerpt}`);
+  }
+  
+  if (metadata.commentKeywords.length > 0) {
+    contextParts.push(`Keywords from comments: ${metadata.commentKeywords.join(", ")}`);
+  }
+
+  if (metadata.hashtags.length > 0) {
+    contextParts.push(`Hashtags: ${metadata.hashtags.map((tag) => `#${tag}`).join(" ")}`);
+  }
+
+  // Scene-level evidence is listed on its own so the model can tie each moment to a movie
+  if (metadata.chapters.length > 0) {
+    contextParts.push(`Chapters (from description):\n${metadata.chapters.slice(0, 30).map((c) => `- ${formatChapter(c)}`).join("\n")}`);
+  }
+
+  if (metadata.timestampedComments.length > 0) {
+    contextParts.push(
+      `Timestamped comments (viewers pointing at specific moments):\n${metadata.timestampedComments
+        .slice(0, 15)
+        .map((c) => `- [${formatTimestamp(c.time)}] ${c.text}`)
+        .join("\n")}`
+    );
+  }
+
+  if (focusTime !== undefined) {
+    contextParts.push(describeFocusMoment(metadata, focusTime));
+  }
+
+  if (looksLikeAnime(metadata)) {
+    contextParts.push(ANIME_HINTS);
+  }
+
+  const prompt = `You are a movie identification expert. Based on the following video metadata from ${platformLabel}, identify the TOP 3 most likely movies this clip could be from, ranked by confidence.
+
+${contextParts.join("\n")}
+
+Analyze all available information carefully. Consider:
+- The video title often contains the movie name
+- Channel names that might indicate official movie channels
+- Keywords from the description and comments
+- Publication date may hint at the movie's era
+- Comment keywords often mention the movie name directly
+- Hashtags on short-form clips frequently name the movie, actors or characters
+- Caption dialogue can contain famous lines, character names and places that pin down the film
+- Chapter titles and timestamped comments describe individual scenes and often name the movie outright${images.length > 0 ? `
+- The attached images: recognizable actors, sets, costumes and any on-screen text, logos or subtitles` : ""}
+
+${MATCHES_RESPONSE_FORMAT}
+
+${CONTENT_TYPE_FORMAT}${metadata.captionsAvailable ? `
+
+Each match object must also include "captionEvidence": up to 2 caption lines copied verbatim (without timestamps) from the caption excerpt that support this match, or an empty array if none do.` : ""}${images.length > 0 ? `
+
+${VISUAL_EVIDENCE_FORMAT}` : ""}`;
+
+  const result = await requestAIJson([
+    { role: "system", content: "You are a movie identification expert. Always respond with valid JSON only." },
+    {
+      role: "user",
+      content: images.length > 0
+        ? [
+            { type: "text", text: prompt },
+            ...images.map((url): ChatContentPart => ({ type: "image_url", image_url: { url } })),
+          ]
+        : prompt,
+    },
+  ], validateIdentification);
+  return {
+    matches: result.matches.map((match) => ({
+      ...match,
+      reasons: [...captionEvidenceReasons(match.captionEvidence, metadata.captionLines), ...match.reasons],
+    })),
+    detailedReasoning: result.detailedReasoning,
+    ...(result.contentType ? { contentType: result.contentType } : {}),
+  };
+}
+
+// Evidence about the exact moment a timestamped link points to, which matters most in long compilations
+function describeFocusMoment(metadata: YouTubeMetadata, focusTime: number): string {
+  const lines = [
+    `FOCUS MOMENT: The link points to ${formatTimestamp(focusTime)} in this video. Identify the movie shown at that moment; in compilations it can differ from the rest of the video, so weigh evidence near this time above everything else.`,
+  ];
+
+  const chapter = metadata.chapters.find((c) => c.start <= focusTime && (c.end ?? Infinity) > focusTime);
+  if (chapter) {
+    lines.push(`Chapter at this moment: ${formatChapter(chapter)}`);
+  }
+
+  const nearbyComments = metadata.timestampedComments.filter(
+    (c) => c.time >= focusTime - FOCUS_WINDOW_BEFORE && c.time <= focusTime + FOCUS_WINDOW_AFTER
+  );
+  if (nearbyComments.length > 0) {
+    lines.push(`Comments about this moment:\n${nearbyComments.slice(0, 8).map((c) => `- [${formatTimestamp(c.time)}] ${c.text}`).join("\n")}`);
+  }
+
+  return lines.join("\n");
+}
+
+// Only keep caption lines the model quoted that really occur in the transcript, tagged with their time;
+// quotes and lines are compared the way titles are, ignoring case and punctuation
+function captionEvidenceReasons(evidence: string[] | undefined, lines: CaptionLine[]): string[] {
+  if (!Array.isArray(evidence) || lines.length === 0) return [];
+
+  const reasons: string[] = [];
+  for (const quote of evidence.slice(0, 2)) {
+    const normalizedQuote = typeof quote === "string" ? normalizeTitle(quote) : "";
+    if (normalizedQuote.length < 8) continue;
+
+    const line = lines.find((l) => {
+      const normalizedLine = normalizeTitle(l.text);
+      return normalizedLine.length >= 8 && (normalizedLine.includes(normalizedQuote) || normalizedQuote.includes(normalizedLine));
+    });
+    if (line) {
+      reasons.push(`Caption at ${formatTimestamp(line.start)}: "${quote.trim()}"`);
+    }
+  }
+  return reasons;
+}
+
+// Vision identification from a screenshot, or from frames sampled in order from a local video file
+async function identifyMoviesFromImages(images: string[], fileName?: string): Promise<AIIdentification> {
+  const subject = images.length === 1
+    ? "The attached image is a screenshot or still frame from a movie."
+    : `The ${images.length} attached images are frames sampled in order from a single movie clip.`;
+
+  const prompt = `You are a movie identification expert. ${subject} Identify the TOP 3 most likely movies it could be from, ranked by confidence.
+${fileName ? `\nOriginal file name: ${fileName}\n` : ""}
+Study the ${images.length === 1 ? "image" : "frames"} carefully. Consider:
+- Recognizable actors and their apparent age
+- Costumes, sets, locations and props
+- Cinematography, color grading and aspect ratio that hint at the era or studio
+- Any visible on-screen text, subtitles, logos or signage
+- File names of downloads and screen recordings sometimes contain the movie name
+
+${MATCHES_RESPONSE_FORMAT}
+
+${VISUAL_EVIDENCE_FORMAT}`;
+
+  const result = await requestAIJson([
+    { role: "system", content: "You are a movie identification expert. Always respond with valid JSON only." },
+    {
+      role: "user",
+      content: [
+        { type: "text", text: prompt },
+        ...images.map((url): ChatContentPart => ({ type: "image_url", image_url: { url } })),
+      ],
+    },
+  ], validateIdentification);
+  return { matches: result.matches, detailedReasoning: result.detailedReasoning };
+}
+
+// Quote search: the user remembers a line of dialogue but not the film
+async function identifyMoviesFromQuote(quote: string): Promise<AIIdentification> {
+  const prompt = `You are a movie identification expert. A user remembers this line of dialogue from a movie, possibly paraphrased or misremembered:
+
+"${quote}"
+
+Identify the TOP 3 most likely movies containing this line, ranked by confidence. Consider:
+- Famous lines are often misquoted; match on meaning and distinctive wording, not exact spelling
+- The same line may appear in remakes, sequels or parodies; prefer the film it is best known from
+- Character names, catchphrases or context words in the quote
+
+${MATCHES_RESPONSE_FORMAT}
+
+Each match object must also include "matchedQuote": the line as it is actually spoken in that movie (with the speaking character, e.g. "Here's looking at you, kid." — Rick), or an empty string if you are unsure of the exact wording.`;
+
+  const result = await requestAIJson([
+    { role: "system", content: "You are a movie identification expert. Always respond with valid JSON only." },
+    { role: "user", content: prompt },
+  ], validateIdentification);
+  return {
+    matches: result.matches,
+    detailedReasoning: result.detailedReasoning,
+  };
+}
+
+// Plot search: the user describes scenes, actors or story beats in their own words
+async function identifyMoviesFromDescription(description: string): Promise<AIIdentification> {
+  const prompt = `You are a movie identification expert. A user is trying to find a movie they only remember vaguely. Their description:
+
+"${description}"
+
+Identify the TOP 3 most likely movies matching this description, ranked by confidence. Consider:
+- Plot points, premises and twists, even when described loosely ("a guy relives the same day")
+- Actors, characters and what they look like or do
+- Memorable scenes, settings and the approximate era the user implies
+- Users often mix up details from similar films; weigh the most distinctive details highest
+
+${MATCHES_RESPONSE_FORMAT}
+
+In "reasons", quote the specific part of the user's description each reason relies on.`;
+
+  const result = await requestAIJson([
+    { role: "system", content: "You are a movie identification expert. Always respond with valid JSON only." },
+    { role: "user", content: prompt },
+  ], validateIdentification);
+  return {
+    matches: result.matches,
+    detailedReasoning: result.detailedReasoning,
+  };
+}
+
+const STOP_WORDS = new Set([
+  "the", "and", "that", "this", "with", "from", "they", "their", "them", "there", "where", "when", "what",
+  "which", "while", "who", "whom", "into", "onto", "about", "after", "before", "over", "under", "then",
+  "than", "have", "has", "had", "been", "being", "were", "was", "are", "is", "his", "her", "hers", "its",
+  "him", "she", "he", "it", "but", "for", "not", "just", "like", "some", "movie", "film", "guy", "girl",
+  "scene", "remember", "think", "one", "out", "all", "very", "really", "also", "can", "could", "would",
+]);
+
+// Crude stemming so "relives" matches "relive" and "looping" matches "loop"
+function stemWord(word: string): string {
+  return word.length > 4 ? word.replace(/(?:ing|ed|es|s)$/, "") : word;
+}
+
+function tokenize(text: string): Array<{ word: string; stem: string }> {
+  return (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [])
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+    .map((word) => ({ word, stem: stemWord(word) }));
+}
+
+// Explain which parts of the user's description line up with a candidate's TMDB overview and keywords
+function explainDescriptionMatch(description: string, movie: MovieResult): string[] {
+  const descriptionTokens = tokenize(description);
+  const descriptionStems = new Set(descriptionTokens.map((t) => t.stem));
+  const reasons: string[] = [];
+
+  const matchedKeywords = movie.keywords.filter((keyword) => {
+    const stems = tokenize(keyword).map((t) => t.stem);
+    return stems.length > 0 && stems.every((stem) => descriptionStems.has(stem));
+  });
+  if (matchedKeywords.length > 0) {
+    reasons.push(`Description matches TMDB keywords: ${matchedKeywords.slice(0, 4).map((k) => `"${k}"`).join(", ")}`);
+  }
+
+  const overviewStems = new Set(tokenize(movie.plot).map((t) => t.stem));
+  const sharedWords = Array.from(
+    new Set(descriptionTokens.filter((t) => overviewStems.has(t.stem)).map((t) => t.word))
+  );
+  if (sharedWords.length > 0) {
+    reasons.push(`Plot overview also mentions ${sharedWords.slice(0, 5).map((w) => `"${w}"`).join(", ")}`);
+  }
+
+  return reasons;
+}
+
+interface TMDBSearchResult {
+  id: number;
+  title: string;
+  original_title?: string;
+  original_language?: string;
+  release_date?: string;
+  popularity?: number;
+  poster_path?: string | null;
+}
+
+interface TMDBShowResult {
+  id: number;
+  name: string;
+  original_name?: string;
+  original_language?: string;
+  first_air_date?: string;
+  popularity?: number;
+  poster_path?: string | null;
+}
+
+// Series results use name/first_air_date; they are mapped onto the movie field names so both rank the same way
+async function searchTMDB(query: string, mediaType: MediaType = "movie"): Promise<TMDBSearchResult[]> {
+  const TMDB_API_KEY = Deno.env.get("TMDB_API_KEY");
+  if (!TMDB_API_KEY) throw new Error("TMDB_API_KEY is not configured");
+
+  const searchUrl = `https://api.themoviedb.org/3/search/${mediaType}?api_key=${TMDB_API_KEY}&query=${encodeURIComponent(query)}`;
+  const searchResponse = await fetch(searchUrl);
+  
+  if (!searchResponse.ok) {
+    console.error("TMDB search error:", await searchResponse.text());
+    return [];
   }
 
   const searchData = await searchResponse.json();
+  if (mediaType === "movie") return searchData.results || [];
+
+  const shows: TMDBShowResult[] = searchData.results || [];
+  return shows.map((show) => ({
+    id: show.id,
+    title: show.name,
+    original_title: show.original_name,
+    original_language: show.original_language,
+    release_date: show.first_air_date,
+    popularity: show.popularity,
+    poster_path: show.poster_path,
+  }));
+}
+
+// What a candidate carries into the TMDB search and episode lookup
+type TMDBLookup = Pick<
+  AIMatch,
+  "movieTitle" | "year" | "originalTitle" | "mediaType" | "season" | "episode" | "episodeTitle" | "isAnime" | "alternativeTitles" | "arc"
+>;
+
+const MAX_ALTERNATIVE_TITLE_QUERIES = 2;
+
+const releaseYear = (date: string | undefined) => (date ? Number(date.split("-")[0]) || null : null);
+
+// Best similarity between a result and any of the candidate's titles
+function resultTitleSimilarity(result: TMDBSearchResult, match: TMDBLookup): number {
+  return Math.max(
+    titleSimilarity(match.movieTitle, result.title),
+    match.originalTitle && result.original_title ? titleSimilarity(match.originalTitle, result.original_title) : 0,
+    ...(match.alternativeTitles ?? []).flatMap((title) => [
+      titleSimilarity(title, result.title),
+      result.original_title ? titleSimilarity(title, result.original_title) : 0,
+    ])
+  );
+}
+
+// Title similarity dominates; the year separates same-named versions and popularity breaks the remaining ties
+function scoreTMDBResult(result: TMDBSearchResult, match: TMDBLookup): number {
+  const similarity = resultTitleSimilarity(result, match);
+
+  const year = releaseYear(result.release_date);
+  let yearScore = 0.5;
+  if (match.year && year) {
+    const distance = Math.abs(match.year - year);
+    yearScore = distance === 0 ? 1 : distance === 1 ? 0.7 : distance <= 3 ? 0.3 : 0;
+  }
+
+  const popularityScore = Math.min(1, Math.log10((result.popularity ?? 0) + 1) / 3);
+  // Live-action adaptations share anime titles; prefer the Japanese original when the model called it anime
+  const animeBonus = match.isAnime && result.original_language === "ja" ? 0.1 : 0;
+  return similarity * 0.6 + yearScore * 0.25 + popularityScore * 0.15 + animeBonus;
+}
+
+// Below this none of the candidate's titles share enough words with the result for it to be the same title
+const MIN_TMDB_TITLE_SIMILARITY = 0.25;
+
+// Search by title (plus original and alternative titles when they differ) and rank every result instead of trusting TMDB's first hit;
+// results that barely resemble any of the titles are dropped
+async function rankTMDBResults(match: TMDBLookup): Promise<TMDBSearchResult[]> {
+  const queries = [match.movieTitle];
+  for (const title of [match.originalTitle, ...(match.alternativeTitles ?? []).slice(0, MAX_ALTERNATIVE_TITLE_QUERIES)]) {
+    if (title && !queries.some((query) => normalizeTitle(query) === normalizeTitle(title))) {
+      queries.push(title);
+    }
+  }
+
+  const results = new Map<number, TMDBSearchResult>();
+  for (const list of await Promise.all(queries.map((query) => searchTMDB(query, match.mediaType)))) {
+    for (const result of list) results.set(result.id, result);
+  }
+
+  return [...results.values()]
+    .filter((result) => resultTitleSimilarity(result, match) >= MIN_TMDB_TITLE_SIMILARITY)
+    .map((result) => ({ result, score: scoreTMDBResult(result, match) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ result }) => result);
+}
+
+const MAX_ALTERNATE_VERSIONS = 4;
+
+// Other entries sharing the chosen movie's title, newest first
+function findAlternateVersions(chosen: TMDBSearchResult, ranked: TMDBSearchResult[], mediaType: MediaType): MovieVersion[] {
+  return ranked
+    .filter((result) => result.id !== chosen.id && titleSimilarity(result.title, chosen.title) === 1)
+    .sort((a, b) => (releaseYear(b.release_date) ?? 0) - (releaseYear(a.release_date) ?? 0))
+    .slice(0, MAX_ALTERNATE_VERSIONS)
+    .map((result) => ({
+      tmdbId: result.id,
+      title: result.title,
+      year: releaseYear(result.release_date)?.toString() ?? "Unknown",
+      poster: result.poster_path ? `https://image.tmdb.org/t/p/w200${result.poster_path}` : "",
+      mediaType,
+    }));
+}
+
+interface CastMember {
+  name: string;
+  character: string;
+}
+
+// Only the billed leads matter for verification; extras rarely get named in comments
+const MAX_VERIFIED_CAST = 20;
+
+const ANIMATION_GENRE_ID = 16;
+
+const MAX_ANIME_TITLES = 4;
+
+async function getMovieDetails(
+  tmdbId: number,
+  mediaType: MediaType = "movie"
+): Promise<{ movie: MovieResult; cast: CastMember[] } | null> {
+  const TMDB_API_KEY = Deno.env.get("TMDB_API_KEY");
+  if (!TMDB_API_KEY) throw new Error("TMDB_API_KEY is not configured");
+
+  const detailsUrl = `https://api.themoviedb.org/3/${mediaType}/${tmdbId}?api_key=${TMDB_API_KEY}&append_to_response=videos,keywords,credits`;
+  const detailsResponse = await fetch(detailsUrl);
+  
+  if (!detailsResponse.ok) {
+    console.error("TMDB details error:", await detailsResponse.text());
+    return null;
+  }
+
+  const details = await detailsResponse.json();
+  
+  let trailer: string | null = null;
+  if (details.videos?.results) {
+    const officialTrailer = details.videos.results.find(
+      (v: any) => v.type === "Trailer" && v.site === "YouTube"
+    );
+    if (officialTrailer) {
+      trailer = `https://www.youtube.com/watch?v=${officialTrailer.key}`;
+    }
+  }
+
+  const posterUrl = details.poster_path 
+    ? `https://image.tmdb.org/t/p/w500${details.poster_path}`
+    : "";
+
+  const cast: CastMember[] = (details.credits?.cast || [])
+    .slice(0, MAX_VERIFIED_CAST)
+    .map((c: { name?: string; character?: string }) => ({ name: c.name || "", character: c.character || "" }));
+
+  // Series use name/first_air_date, per-episode runtimes and keywords.results
+  const releaseDate: string | undefined = details.release_date ?? details.first_air_date;
+  const runtime: number | undefined = details.runtime ?? details.episode_run_time?.[0];
+  const title: string = details.title ?? details.name;
+  const originalTitle: string | undefined = details.original_title ?? details.original_name;
+  // TMDB has no anime flag; Japanese-language animation is the usual test
+  const isAnime = details.original_language === "ja" && details.genres?.some((g: { id: number }) => g.id === ANIMATION_GENRE_ID);
+
+  return {
+    movie: {
+      title,
+      year: releaseDate ? releaseDate.split("-")[0] : "Unknown",
+      poster: posterUrl,
+      plot: details.overview || "No plot available.",
+      rating: details.vote_average ? details.vote_average.toFixed(1) : "N/A",
+      runtime: runtime ? `${runtime} min${mediaType === "tv" ? " per episode" : ""}` : "Unknown",
+      ...(runtime ? { runtimeMinutes: runtime } : {}),
+      genres: details.genres?.map((g: any) => g.name) || [],
+      trailer,
+      tmdbId: details.id,
+      keywords: (details.keywords?.keywords ?? details.keywords?.results)?.map((k: { name: string }) => k.name) || [],
+      aiReasoning: "",
+      mediaType,
+      ...(isAnime
+        ? { anime: { alternativeTitles: originalTitle && originalTitle !== title ? [originalTitle] : [] } }
+        : {}),
+    },
+    cast,
+  };
+}
+
+interface TMDBEpisode {
+  season_number: number;
+  episode_number: number;
+  name?: string;
+  still_path?: string | null;
+  air_date?: string;
+  overview?: string;
+}
+
+function toEpisodeInfo(episode: TMDBEpisode): EpisodeInfo {
+  return {
+    season: episode.season_number,
+    episode: episode.episode_number,
+    title: episode.name || `Episode ${episode.episode_number}`,
+    still: episode.still_path ? `https://image.tmdb.org/t/p/w500${episode.still_path}` : "",
+    airDate: episode.air_date || "",
+    overview: episode.overview || "",
+  };
+}
+
+// Pin the episode by its numbers, or by its title within a known season when the numbers are missing
+async function getEpisodeDetails(tvId: number, lookup: TMDBLookup): Promise<EpisodeInfo | null> {
+  const TMDB_API_KEY = Deno.env.get("TMDB_API_KEY");
+  if (!TMDB_API_KEY || lookup.season == null) return null;
+
+  try {
+    if (lookup.episode != null) {
+      const response = await fetch(
+        `https://api.themoviedb.org/3/tv/${tvId}/season/${lookup.season}/episode/${lookup.episode}?api_key=${TMDB_API_KEY}`
+      );
+      return response.ok ? toEpisodeInfo(await response.json()) : null;
+    }
+
+    if (!lookup.episodeTitle) return null;
+    const response = await fetch(`https://api.themoviedb.org/3/tv/${tvId}/season/${lookup.season}?api_key=${TMDB_API_KEY}`);
+    if (!response.ok) return null;
+
+    const season = await response.json();
+    const episodes: TMDBEpisode[] = season.episodes || [];
+    const episode = episodes.find((e) => titleSimilarity(e.name || "", lookup.episodeTitle!) >= 0.8);
+    return episode ? toEpisodeInfo(episode) : null;
+  } catch (error) {
+    console.error("Error fetching episode:", error);
+    return null;
+  }
+}
+
+async function getMovieFromTMDB(
+  match: TMDBLookup
+): Promise<{ movie: MovieResult; cast: CastMember[]; alternates: MovieVersion[] } | null> {
+  const ranked = await rankTMDBResults(match);
+  if (ranked.length === 0) {
+    return null;
+  }
+
+  const mediaType = match.mediaType ?? "movie";
+  const details = await getMovieDetails(ranked[0].id, mediaType);
+  if (!details) return null;
+
+  if (mediaType === "tv") {
+    const episode = await getEpisodeDetails(ranked[0].id, match);
+    if (episode) details.movie.episode = episode;
+  }
+
+  if (match.isAnime || details.movie.anime) {
+    const titles = [...(details.movie.anime?.alternativeTitles ?? []), ...(match.alternativeTitles ?? [])]
+      .filter((title) => normalizeTitle(title) !== normalizeTitle(details.movie.title));
+    details.movie.anime = {
+      alternativeTitles: [...new Map(titles.map((title) => [normalizeTitle(title), title])).values()].slice(0, MAX_ANIME_TITLES),
+      ...(match.arc ? { arc: match.arc } : {}),
+    };
+  }
+
+  return { ...details, alternates: findAlternateVersions(ranked[0], ranked, mediaType) };
+}
+
+// A parsed clip title only skips the AI when TMDB has a title that really matches it
+const OFFICIAL_CLIP_MIN_SIMILARITY = 0.8;
+
+// Official channels post series trailers too, so look the parsed title up as both a movie and a series
+// and keep whichever confirms it; null sends the clip on to the AI
+async function confirmOfficialClipTitle(parsed: AIIdentification): Promise<AIIdentification | null> {
+  const [match] = parsed.matches;
+  const lookups = await Promise.all((["movie", "tv"] as MediaType[]).map(async (mediaType) => {
+    const lookup: TMDBLookup = { ...match, mediaType };
+    const [best] = await rankTMDBResults(lookup);
+    if (!best || resultTitleSimilarity(best, lookup) < OFFICIAL_CLIP_MIN_SIMILARITY) return null;
+    return { mediaType, score: scoreTMDBResult(best, lookup) };
+  }));
+
+  const confirmed = lookups
+    .filter((lookup): lookup is { mediaType: MediaType; score: number } => lookup !== null)
+    .sort((a, b) => b.score - a.score)[0];
+  if (!confirmed) return null;
+
+  return {
+    ...parsed,
+    matches: [{
+      ...match,
+      mediaType: confirmed.mediaType,
+      reasons: [...match.reasons, `Confirmed on TMDB as a ${confirmed.mediaType === "tv" ? "series" : "movie"}`],
+    }],
+  };
+}
+
+interface CastMention {
+  // Normalized name, shared between candidates so the same sighting can be compared across them
+  key: string;
+  // As TMDB lists it
+  name: string;
+  reason: string;
+}
+
+// Words in character names too generic to count as a sighting on their own
+const GENERIC_NAME_WORDS = new Set([
+  "the", "young", "older", "man", "woman", "girl", "boy", "himself", "herself", "voice", "uncredited",
+  "agent", "officer", "captain", "detective", "doctor", "sergeant", "general", "king", "queen", "father", "mother",
+]);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Cast members named in the video text: full actor or character names, or a distinctive
+// capitalized part of a character name ("Hannibal" for "Dr. Hannibal Lecter")
+function findCastMentions(text: string, cast: CastMember[]): CastMention[] {
+  const mentions: CastMention[] = [];
+  const mentionsName = (name: string) => new RegExp(`\\b${escapeRegExp(name)}\\b`, "i").test(text);
+
+  for (const member of cast) {
+    if (member.name && mentionsName(member.name)) {
+      mentions.push({ key: normalizeTitle(member.name), name: member.name, reason: `Verified on TMDB: ${member.name} is in the cast` });
+      continue;
+    }
+
+    for (const character of member.character.split("/").map((c) => c.replace(/\(.*?\)/g, "").trim())) {
+      if (character.length < 3) continue;
+
+      const distinctivePart = character
+        .split(/\s+/)
+        .find((word) => word.length >= 5 && !GENERIC_NAME_WORDS.has(word.toLowerCase()) && new RegExp(`\\b${escapeRegExp(word)}\\b`).test(text));
+      if (mentionsName(character) || distinctivePart) {
+        mentions.push({
+          key: normalizeTitle(distinctivePart ?? character),
+          name: character,
+          reason: `Verified on TMDB: ${member.name} plays ${character}`,
+        });
+        break;
+      }
+    }
+  }
+  return mentions;
+}
+
+const CAST_BOOST_PER_NAME = 8;
+const MAX_CAST_BOOST = 20;
+const CAST_PENALTY_PER_NAME = 10;
+const MAX_CAST_PENALTY = 30;
+
+// Raise candidates whose cast contains the names the video mentions and lower the ones missing
+// names another candidate's cast accounts for, then re-rank by the adjusted confidence and
+// rescale so the candidates share the same total as before
+function verifyMatchesAgainstCast(
+  matches: { match: MovieMatch; cast: CastMember[] }[],
+  evidenceText: string
+): MovieMatch[] {
+  const mentions = matches.map(({ cast }) => findCastMentions(evidenceText, cast));
+  const namesByKey = new Map(mentions.flat().map((mention) => [mention.key, mention.name]));
+  if (namesByKey.size === 0) return matches.map(({ match }) => match);
+
+  const total = Math.min(100, matches.reduce((sum, { match }) => sum + match.confidence, 0));
+  const adjusted = matches
+    .map(({ match }, index): MovieMatch => {
+      const verified = mentions[index];
+      const verifiedKeys = new Set(verified.map((mention) => mention.key));
+      const missing = [...namesByKey].filter(([key]) => !verifiedKeys.has(key)).map(([, name]) => name);
+
+      const boost = Math.min(MAX_CAST_BOOST, verified.length * CAST_BOOST_PER_NAME);
+      const penalty = Math.min(MAX_CAST_PENALTY, missing.length * CAST_PENALTY_PER_NAME);
+      return {
+        ...match,
+        confidence: Math.min(99, Math.max(1, match.confidence + boost - penalty)),
+        matchReasons: [
+          ...[...new Set(verified.map((mention) => mention.reason))]
+            .slice(0, 3)
+            .map((text) => ({ kind: "cast_verified" as const, text })),
+          ...match.matchReasons,
+          ...(missing.length > 0
+            ? [{ kind: "cast_missing" as const, text: `Names mentioned in the video are not in this cast: ${missing.join(", ")}` }]
+            : []),
+        ],
+        castCheck: { verified: [...new Set(verified.map((mention) => mention.name))], missing },
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+  return normalizeConfidences(adjusted, total);
+}
+
+// Everything a viewer could have named a character or actor in
+function metadataEvidenceText(metadata: YouTubeMetadata): string {
+  return [
+    metadata.title,
+    metadata.description,
+    metadata.captionsText,
+    ...metadata.commentKeywords,
+    ...metadata.timestampedComments.map((comment) => comment.text),
+    ...metadata.hashtags.map(hashtagWords),
+  ].join("\n");
+}
+
+interface HeuristicCandidate {
+  query: string;
+  weight: number;
+  reason: string;
+}
+
+// Hashtags that say nothing about which movie a clip is from
+const GENERIC_HASHTAGS = new Set([
+  "movie", "movies", "film", "films", "scene", "scenes", "clip", "clips", "moviescene", "movieclips",
+  "fyp", "foryou", "foryoupage", "viral", "trending", "shorts", "reels", "explore", "edit", "edits",
+  "cinema", "hollywood", "netflix", "trailer", "anime", "amv", "animeedit", "animeedits",
+]);
+
+const TITLE_NOISE_PATTERN = /\b(?:official|trailer|teaser|clip|scene|full movie|movie|film|hd|4k|1080p|best|epic|funniest|ending)\b/gi;
+
+// Names that might be the movie, pulled from the title, description, hashtags and comments
+function collectHeuristicCandidates(metadata: YouTubeMetadata): HeuristicCandidate[] {
+  const candidates: HeuristicCandidate[] = [];
+  const title = stripHashtags(metadata.title);
+
+  // "Inception (2010) - Hallway Fight"
+  const beforeYear = title.match(/^(.+?)\s*[([]\d{4}[)\]]/)?.[1];
+  if (beforeYear) candidates.push({ query: beforeYear, weight: 3, reason: `Title names "${beforeYear.trim()}"` });
+
+  for (const match of title.matchAll(/["“]([^"”]{3,60})["”]/g)) {
+    candidates.push({ query: match[1], weight: 3, reason: `Title quotes "${match[1]}"` });
+  }
+
+  title.split(/\s+[|–—-]\s+|\s*\|\s*/).forEach((segment, index) => {
+    const cleaned = segment.replace(/[([].*?[)\]]/g, "").replace(TITLE_NOISE_PATTERN, "").replace(/\s+/g, " ").trim();
+    if (cleaned.length >= 3) {
+      candidates.push({ query: cleaned, weight: index === 0 ? 2 : 1, reason: `Title mentions "${cleaned}"` });
+    }
+  });
+
+  const descriptionLine = stripHashtags(metadata.description.split("\n")[0] || "").slice(0, 80).trim();
+  if (descriptionLine.length >= 3 && descriptionLine !== title) {
+    candidates.push({ query: descriptionLine, weight: 1, reason: "Description opens with a matching name" });
+  }
+
+  for (const tag of metadata.hashtags) {
+    if (GENERIC_HASHTAGS.has(tag.toLowerCase())) continue;
+    candidates.push({ query: hashtagWords(tag), weight: 1.5, reason: `Hashtag #${tag}` });
+  }
+
+  for (const keyword of metadata.commentKeywords.slice(0, 5)) {
+    candidates.push({ query: keyword, weight: 1, reason: `Comments mention "${keyword}"` });
+  }
+
+  // Keep the strongest version of each query and limit TMDB calls
+  const unique = new Map<string, HeuristicCandidate>();
+  for (const candidate of candidates) {
+    const key = normalizeTitle(candidate.query);
+    if (key.length < 3) continue;
+    const existing = unique.get(key);
+    if (!existing || existing.weight < candidate.weight) unique.set(key, candidate);
+  }
+  return [...unique.values()].sort((a, b) => b.weight - a.weight).slice(0, 8);
+}
+
+const HEURISTIC_MAX_CONFIDENCE = 60;
+
+// Degraded identification without the AI: search TMDB for every candidate name and rank what comes back
+async function identifyMoviesHeuristically(metadata: YouTubeMetadata): Promise<AIIdentification | null> {
+  const candidates = collectHeuristicCandidates(metadata);
+  if (candidates.length === 0) return null;
+
+  const searches = await Promise.all(candidates.map((candidate) => searchTMDB(candidate.query)));
+  const scored = new Map<number, { title: string; year: number | null; score: number; reasons: string[] }>();
+
+  candidates.forEach((candidate, index) => {
+    searches[index].slice(0, 3).forEach((result, rank) => {
+      const similarity = titleSimilarity(candidate.query, result.title);
+      if (similarity < 0.5) return;
+
+      // Popularity only breaks ties between otherwise similar matches
+      const score = candidate.weight * similarity / (rank + 1) + Math.log10((result.popularity ?? 0) + 1) * 0.1;
+      const entry = scored.get(result.id) ?? { title: result.title, year: releaseYear(result.release_date), score: 0, reasons: [] };
+      entry.score += score;
+      if (!entry.reasons.includes(candidate.reason)) entry.reasons.push(candidate.reason);
+      scored.set(result.id, entry);
+    });
+  });
+
+  const ranked = [...scored.values()].sort((a, b) => b.score - a.score).slice(0, 3);
+  if (ranked.length === 0) return null;
+
+  return {
+    matches: ranked.map((entry) => ({
+      movieTitle: entry.title,
+      ...(entry.year ? { year: entry.year } : {}),
+      confidence: Math.max(5, Math.round((HEURISTIC_MAX_CONFIDENCE * entry.score) / ranked[0].score)),
+      reasons: ["Found by keyword search (AI unavailable)", ...entry.reasons.slice(0, 3)],
+    })),
+    detailedReasoning: "The AI service was unavailable, so these candidates come from searching TMDB for names found in the video's title, description, hashtags and comments. They are less reliable than a full AI identification.",
+  };
+}
+
+// Fetch streaming providers from TMDB
+async function getStreamingProviders(tmdbId: number, mediaType: MediaType = "movie"): Promise<StreamingProvider[]> {
+  const TMDB_API_KEY = Deno.env.get("TMDB_API_KEY");
+  if (!TMDB_API_KEY) return [];
+
+  try {
+    const response = await fetch(
+      `https://api.themoviedb.org/3/${mediaType}/${tmdbId}/watch/providers?api_key=${TMDB_API_KEY}`
+    );
+    
+    if (!response.ok) return [];
+    
+    const data = await response.json();
+    
+    // Try to get US providers, fallback to first available region
+    const regionData = data.results?.US || Object.values(data.results || {})[0] as any;
+    
+    if (!regionData) return [];
+
+    const providers: StreamingProvider[] = [];
+    const seen = new Set<string>();
+
+    // Add subscription (flatrate) providers
+    if (regionData.flatrate) {
+      for (const p of regionData.flatrate.slice(0, 4)) {
+        if (!seen.has(p.provider_name)) {
+          seen.add(p.provider_name);
+          providers.push({
+            name: p.provider_name,
+            logo: `https://image.tmdb.org/t/p/original${p.logo_path}`,
+            link: regionData.link || "",
+            type: "subscription",
+          });
+        }
+      }
+    }
+
+    // Add rent providers
+    if (regionData.rent) {
+      for (const p of regionData.rent.slice(0, 2)) {
+        if (!seen.has(p.provider_name)) {
+          seen.add(p.provider_name);
+          providers.push({
+            name: p.provider_name,
+            logo: `https://image.tmdb.org/t/p/original${p.logo_path}`,
+            link: regionData.link || "",
+            type: "rent",
+          });
+        }
+      }
+    }
+
+    return providers.slice(0, 6);
+  } catch (error) {
+    console.error("Error fetching streaming providers:", error);
+    return [];
+  }
+}
+
+// Fetch similar movies from TMDB
+async function getSimilarMovies(tmdbId: number, mediaType: MediaType = "movie"): Promise<SimilarMovie[]> {
+  const TMDB_API_KEY = Deno.env.get("TMDB_API_KEY");
+  if (!TMDB_API_KEY) return [];
+
+  try {
+    const response = await fetch(
+      `https://api.themoviedb.org/3/${mediaType}/${tmdbId}/similar?api_key=${TMDB_API_KEY}&page=1`
+    );
+    
+    if (!response.ok) return [];
+    
+    const data = await response.json();
+    
+    return (data.results || []).slice(0, 6).map((m: any) => ({
+      id: m.id,
+      title: m.title ?? m.name,
+      poster: m.poster_path ? `https://image.tmdb.org/t/p/w200${m.poster_path}` : "",
+      year: (m.release_date ?? m.first_air_date)?.split("-")[0] || "Unknown",
+      genres: [], // Genre info not included in similar endpoint
+      mediaType,
+    }));
+  } catch (error) {
+    console.error("Error fetching similar movies:", error);
+    return [];
+  }
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Enrich AI candidates with TMDB details; every input mode returns this same response shape.
+// explainMatch lets a mode add evidence that can only be computed once TMDB data is known.
+interface IdentifyResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+type JobStage = "queued" | "metadata" | "analyzing" | "matching" | "providers" | "playlist" | "done";
+
+interface JobProgress {
+  stage: JobStage;
+  // Human-readable detail about what just happened, e.g. "Captions found (312 lines)"
+  message?: string;
+  topCandidate?: { title: string; confidence: number };
+  completedItems?: number;
+  totalItems?: number;
+  partialResult?: Record<string, unknown>;
+}
+
+type ProgressReporter = (progress: JobProgress) => void;
+
+// Keep the model's guess inside the TMDB runtime and fill in the act from the position when it gave none
+function placeScene(scene: SceneInfo, runtimeMinutes?: number): SceneInfo {
+  if (scene.minute === undefined || !runtimeMinutes) return scene;
+
+  const minute = Math.min(scene.minute, runtimeMinutes);
+  const position = minute / runtimeMinutes;
+  return {
+    ...scene,
+    minute,
+    act: scene.act ?? (position < 0.25 ? 1 : position < 0.75 ? 2 : 3),
+  };
+}
+
+async function buildIdentifyResult(
+  aiResult: AIIdentification,
+  extras: Record<string, unknown>,
+  explainMatch?: (movie: MovieResult) => string[],
+  report?: ProgressReporter,
+  // Video text to cross-check each candidate's cast and character names against
+  evidenceText?: string
+): Promise<IdentifyResult> {
+  console.log("AI identified matches:", aiResult.matches.map(m => m.movieTitle));
+
+  const topMatch = aiResult.matches[0];
+  report?.({
+    stage: "matching",
+    message: `Looking up ${aiResult.matches.map((m) => m.movieTitle).join(", ")} on TMDB`,
+    ...(topMatch ? { topCandidate: { title: topMatch.movieTitle, confidence: topMatch.confidence } } : {}),
+  });
+
+  // Get TMDB data for all matches in parallel
+  const moviePromises = aiResult.matches.map(async (match) => {
+    const found = await getMovieFromTMDB(match);
+    if (!found) return null;
+    
+    const movieData = found.movie;
+    movieData.aiReasoning = aiResult.detailedReasoning;
+    
+    return {
+      match: {
+        movie: movieData,
+        confidence: match.confidence,
+        matchReasons: [
+          ...evidenceReasons(explainMatch?.(movieData) ?? []),
+          ...visualEvidenceReasons(match.visualEvidence),
+          ...evidenceReasons(match.reasons),
+        ],
+        ...(match.matchedQuote ? { matchedQuote: match.matchedQuote } : {}),
+        ...(found.alternates.length > 0 ? { alternates: found.alternates } : {}),
+        ...(match.scene ? { scene: placeScene(match.scene, movieData.runtimeMinutes) } : {}),
+      } as MovieMatch,
+      cast: found.cast,
+    };
+  });
+
+  const resolved = (await Promise.all(moviePromises)).filter((m): m is { match: MovieMatch; cast: CastMember[] } => m !== null);
+  const allMatches = evidenceText
+    ? verifyMatchesAgainstCast(resolved, evidenceText)
+    : resolved.map(({ match }) => match);
   
-  if (!searchData.results || searchData.results.length === 0) {
+  if (allMatches.length === 0) {
+    return {
+      status: 404,
+      body: {
+        error: "Could not find movie information. The AI suggested: " + aiResult.matches[0]?.movieTitle,
+        aiReasoning: aiResult.detailedReasoning,
+      },
+    };
+  }
+
+  const bestMatch = allMatches[0];
+
+  // Fetch streaming providers and similar movies for the best match
+  report?.({
+    stage: "providers",
+    message: `Finding where to watch ${bestMatch.movie.title}`,
+    topCandidate: { title: `${bestMatch.movie.title} (${bestMatch.movie.year})`, confidence: bestMatch.confidence },
+  });
+  const [streamingProviders, similarMovies] = await Promise.all([
+    getStreamingProviders(bestMatch.movie.tmdbId, bestMatch.movie.mediaType),
+    getSimilarMovies(bestMatch.movie.tmdbId, bestMatch.movie.mediaType),
+  ]);
+
+  return {
+    status: 200,
+    body: {
+      movie: bestMatch.movie,
+      ...extras,
+      matches: allMatches,
+      streamingProviders,
+      similarMovies,
+      detailedReasoning: aiResult.detailedReasoning,
+    },
+  };
+}
+
+async function buildIdentifyResponse(
+  aiResult: AIIdentification,
+  extras: Record<string, unknown>,
+  explainMatch?: (movie: MovieResult) => string[]
+): Promise<Response> {
+  const { status, body } = await buildIdentifyResult(aiResult, extras, explainMatch);
+  return jsonResponse(body, status);
+}
+
+// Found "Heat - Diner scene": captions (312 lines), 14 comment keywords, 6 chapters
+function describeMetadata(metadata: YouTubeMetadata): string {
+  const findings = [
+    metadata.captionLines.length > 0 ? `captions (${metadata.captionLines.length} lines)` : "",
+    metadata.commentKeywords.length > 0 ? `${metadata.commentKeywords.length} comment keywords` : "",
+    metadata.chapters.length > 0 ? `${metadata.chapters.length} chapters` : "",
+    metadata.timestampedComments.length > 0 ? `${metadata.timestampedComments.length} timestamped comments` : "",
+    metadata.hashtags.length > 0 ? `${metadata.hashtags.length} hashtags` : "",
+  ].filter(Boolean);
+
+  const title = metadata.title ? `Found "${metadata.title}"` : "Video details fetched";
+  return findings.length > 0 ? `${title}: ${findings.join(", ")}` : title;
+}
+
+interface AISegment {
+  start: number;
+  end?: number;
+  movieTitle: string;
+  year?: number;
+  mediaType?: MediaType;
+  confidence: number;
+  reasons: string[];
+}
+
+interface AICompilation {
+  segments: AISegment[];
+  detailedReasoning: string;
+}
+
+interface CompilationSegment {
+  start: number;
+  end?: number;
+  movie: MovieResult;
+  confidence: number;
+  matchReasons: MatchReason[];
+  streamingProviders: StreamingProvider[];
+}
+
+const COMPILATION_TITLE_PATTERN = /\b(?:top \d+|\d+ (?:best|greatest|most)|compilation|supercut|every .+ scene|best (?:movie )?(?:scenes|moments|fights|chases))\b/i;
+const MAX_COMPILATION_SEGMENTS = 15;
+// Fewer resolved segments than this and the video is treated as a single clip after all
+const MIN_COMPILATION_SEGMENTS = 2;
+const COMPILATION_CONCURRENCY = 3;
+
+// Chapters naming several different movies, or a "Top 10"-style title with timed evidence to split on
+function looksLikeCompilation(metadata: YouTubeMetadata): boolean {
+  const hintedMovies = new Set(metadata.chapters.flatMap((c) => (c.movieHint ? [normalizeTitle(c.movieHint)] : [])));
+  if (hintedMovies.size >= 3) return true;
+
+  return COMPILATION_TITLE_PATTERN.test(metadata.title) &&
+    (metadata.chapters.length >= 3 || metadata.timestampedComments.length >= 3 || metadata.captionLines.length > 0);
+}
+
+function validateSegment(raw: unknown, label: string, issues: string[]): AISegment | null {
+  if (typeof raw !== "object" || raw === null) {
+    issues.push(`${label} is not an object`);
     return null;
   }
 
-  const movie = searchData.results[0];
-  
-  const detailsUrl = `https://api.themoviedb.org/3/movie/${movie.id}?api_key=${TMDB_API_KEY}&append_to_response=videos`;
-  const detailsResponse = await fetch(detailsUrl);
-  
-  if (!detailsResponse.ok) {
-    console.error("TMDB details error:", await detailsResponse.text());
-    return null;
+  const segment = raw as Record<string, unknown>;
+  const before = issues.length;
+
+  if (!Number.isInteger(segment.start) || (segment.start as number) < 0) issues.push(`${label} "start" must be a whole number of seconds`);
+  if (segment.end != null && !(Number.isInteger(segment.end) && (segment.end as number) > (segment.start as number))) {
+    issues.push(`${label} "end" must be a whole number of seconds after "start", or null`);
+  }
+  if (!isNonEmptyString(segment.movieTitle)) issues.push(`${label} needs a non-empty "movieTitle"`);
+  if (segment.year != null && !Number.isInteger(segment.year)) issues.push(`${label} "year" must be an integer`);
+  if (segment.mediaType != null && segment.mediaType !== "movie" && segment.mediaType !== "tv") {
+    issues.push(`${label} "mediaType" must be "movie" or "tv"`);
+  }
+  if (!Number.isInteger(segment.confidence) || (segment.confidence as number) < 1 || (segment.confidence as number) > 100) {
+    issues.push(`${label} "confidence" must be an integer from 1 to 100`);
+  }
+  if (!isStringArray(segment.reasons) || !segment.reasons.some(isNonEmptyString)) {
+    issues.push(`${label} needs a non-empty "reasons" array of strings`);
+  }
+  if (issues.length > before) return null;
+
+  return {
+    start: segment.start as number,
+    ...(segment.end != null ? { end: segment.end as number } : {}),
+    movieTitle: (segment.movieTitle as string).trim(),
+    ...(segment.year != null ? { year: segment.year as number } : {}),
+    ...(segment.mediaType === "tv" ? { mediaType: "tv" as const } : {}),
+    confidence: segment.confidence as number,
+    reasons: (segment.reasons as string[]).filter(isNonEmptyString),
+  };
+}
+
+function validateCompilation(raw: unknown): AIValidation<AICompilation> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { value: null, issues: ["The reply must be a JSON object"] };
+  }
+
+  const result = raw as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (!Array.isArray(result.segments) || result.segments.length === 0) {
+    issues.push(`"segments" must be a non-empty array`);
+  } else if (result.segments.length > MAX_COMPILATION_SEGMENTS) {
+    issues.push(`"segments" has ${result.segments.length} entries but may have at most ${MAX_COMPILATION_SEGMENTS}`);
+  }
+  if (!isNonEmptyString(result.detailedReasoning)) issues.push(`"detailedReasoning" must be a non-empty string`);
+
+  const segments = Array.isArray(result.segments)
+    ? result.segments.map((segment, index) => validateSegment(segment, `Segment ${index + 1}`, issues))
+    : [];
+  if (issues.length > 0) return { value: null, issues };
+
+  return {
+    value: {
+      segments: (segments as AISegment[]).sort((a, b) => a.start - b.start),
+      detailedReasoning: result.detailedReasoning as string,
+    },
+    issues: [],
+  };
+}
+
+async function identifyCompilationSegments(metadata: YouTubeMetadata): Promise<AICompilation> {
+  const contextParts = [
+    `Video Title: ${metadata.title}`,
+    `Channel: ${metadata.channelTitle}`,
+    ...(metadata.description ? [`Description: ${metadata.description.slice(0, 1000)}`] : []),
+    ...(metadata.chapters.length > 0
+      ? [`Chapters (from description):\n${metadata.chapters.slice(0, 30).map((c) => `- ${formatChapter(c)}`).join("\n")}`]
+      : []),
+    ...(metadata.timestampedComments.length > 0
+      ? [`Timestamped comments:\n${metadata.timestampedComments.slice(0, 30).map((c) => `- [${formatTimestamp(c.time)}] ${c.text}`).join("\n")}`]
+      : []),
+    ...(metadata.captionsAvailable
+      ? [`Caption excerpt (dialogue transcript, [m:ss] timestamps):\n${buildCaptionExcerpt(metadata.captionLines)}`]
+      : []),
+    ...(metadata.commentKeywords.length > 0 ? [`Keywords from comments: ${metadata.commentKeywords.join(", ")}`] : []),
+  ];
+
+  const prompt = `You are a movie identification expert. This ${getSourceLabel(metadata.platform)} video looks like a compilation or supercut with scenes from several different movies or shows.
+
+${contextParts.join("\n")}
+
+Split the video into segments, one per movie or show, in playback order. Consider:
+- Chapter times usually mark where each movie starts, and chapter titles often name it
+- Timestamped comments name the movie playing at that moment
+- Caption dialogue changes abruptly at segment boundaries and contains lines you may recognize
+- Rankings ("#7", "Number 3") in chapters or captions often introduce the next movie
+
+Respond with a JSON object containing:
+1. "segments": An array of up to ${MAX_COMPILATION_SEGMENTS} objects, each with:
+   - "start": Segment start in whole seconds
+   - "end": Segment end in whole seconds, or null if unknown
+   - "mediaType": "movie" or "tv"
+   - "movieTitle": The exact movie or series title (just the title, no year)
+   - "year": The release year as an integer
+   - "confidence": How confident you are about this segment alone (integer 1-100)
+   - "reasons": 1-3 short strings naming the evidence (e.g. "Chapter at 3:12 is titled 'Bullitt'")
+2. "detailedReasoning": 2-3 sentences explaining how you split the video and identified the segments
+
+Only respond with valid JSON, no additional text.`;
+
+  return await requestAIJson([
+    { role: "system", content: "You are a movie identification expert. Always respond with valid JSON only." },
+    { role: "user", content: prompt },
+  ], validateCompilation);
+}
+
+// A timeline of segments, each resolved on TMDB like a single clip; null when too few resolve to call it a compilation
+async function identifyCompilation(
+  metadata: YouTubeMetadata,
+  extras: Record<string, unknown>,
+  report?: ProgressReporter
+): Promise<IdentifyResult | null> {
+  report?.({ stage: "analyzing", message: "Looks like a compilation, splitting it into scenes" });
+  const compilation = await identifyCompilationSegments(metadata);
+
+  report?.({
+    stage: "matching",
+    message: `Looking up ${compilation.segments.length} segments on TMDB`,
+    totalItems: compilation.segments.length,
+  });
+  const resolved = await mapWithConcurrency(compilation.segments, COMPILATION_CONCURRENCY, async (segment) => {
+    const found = await getMovieFromTMDB(segment);
+    if (!found) return null;
+
+    found.movie.aiReasoning = compilation.detailedReasoning;
+    return {
+      start: segment.start,
+      ...(segment.end !== undefined ? { end: segment.end } : {}),
+      movie: found.movie,
+      confidence: segment.confidence,
+      matchReasons: evidenceReasons(segment.reasons),
+      streamingProviders: await getStreamingProviders(found.movie.tmdbId, found.movie.mediaType),
+    } as CompilationSegment;
+  });
+
+  const segments = resolved.filter((segment): segment is CompilationSegment => segment !== null);
+  if (segments.length < MIN_COMPILATION_SEGMENTS) return null;
+
+  return {
+    status: 200,
+    body: { ...extras, segments, detailedReasoning: compilation.detailedReasoning },
+  };
+}
+
+// Uploaders often state the episode outright; trust that over the model for the top series candidate
+function pinEpisodeFromMetadata(aiResult: AIIdentification, metadata: YouTubeMetadata): AIIdentification {
+  const [top, ...rest] = aiResult.matches;
+  const numbers = parseEpisodeNumbers(`${metadata.title}\n${metadata.description}`);
+  if (!top || top.mediaType !== "tv" || !numbers) return aiResult;
+
+  return {
+    ...aiResult,
+    matches: [
+      { ...top, ...numbers, reasons: [...top.reasons, `Upload names season ${numbers.season}, episode ${numbers.episode}`] },
+      ...rest,
+    ],
+  };
+}
+
+async function identifyVideo(
+  adapter: SourceAdapter,
+  videoUrl: string,
+  report?: ProgressReporter
+): Promise<IdentifyResult> {
+  console.log("Processing video:", adapter.id, videoUrl);
+
+  // Get video metadata through the matching source adapter
+  report?.({ stage: "metadata", message: `Fetching video details from ${adapter.label}` });
+  const metadata = await adapter.fetchMetadata(videoUrl);
+  report?.({ stage: "metadata", message: describeMetadata(metadata) });
+
+  console.log("Metadata fetched:", {
+    platform: metadata.platform,
+    title: metadata.title,
+    channel: metadata.channelTitle,
+    captionsAvailable: metadata.captionsAvailable,
+    commentKeywords: metadata.commentKeywords.length,
+    hashtags: metadata.hashtags.length,
+    chapters: metadata.chapters.length,
+    timestampedComments: metadata.timestampedComments.length,
+  });
+
+  // A t=/start= timestamp on a YouTube, Vimeo or Dailymotion link narrows the evidence to one moment of the video
+  const startTime = extractStartTime(videoUrl) ?? undefined;
+
+  const extras = {
+    videoTitle: metadata.title,
+    videoThumbnail: metadata.thumbnail,
+    source: { id: adapter.id, label: adapter.label, capabilities: adapter.capabilities },
+    ...(startTime !== undefined ? { analyzedAt: startTime } : {}),
+    ...(metadata.chapters.length > 0 || metadata.timestampedComments.length > 0
+      ? { sceneEvidence: { chapters: metadata.chapters, timestampedComments: metadata.timestampedComments } }
+      : {}),
+  };
+
+  // Official clip channels name the movie in the title; fall back to the AI if TMDB can't confirm it
+  const parsed = identifyFromOfficialClipTitle(metadata);
+  if (parsed) {
+    report?.({ stage: "analyzing", message: `Parsed "${parsed.matches[0].movieTitle}" from the official clip title` });
+    const confirmed = await confirmOfficialClipTitle(parsed);
+    if (confirmed) {
+      const parsedResult = await buildIdentifyResult(confirmed, extras, undefined, report);
+      if (parsedResult.status === 200) return parsedResult;
+    }
+  }
+
+  // Compilations get a timeline of segments; a timestamped link still asks about that one moment
+  if (startTime === undefined && looksLikeCompilation(metadata)) {
+    try {
+      const compilation = await identifyCompilation(metadata, extras, report);
+      if (compilation) return compilation;
+    } catch (error) {
+      if (!(error instanceof AIUnavailableError || error instanceof AIResponseError)) throw error;
+      console.warn("Compilation split failed, identifying as a single clip:", error.message);
+    }
   }
 
-  const details = await detailsResponse.json();
-  
-  let trailer: string | null = null;
-  if (details.videos?.results) {
-    const officialTrailer = details.videos.results.find(
-      (v: any) => v.type === "Trailer" && v.site === "YouTube"
+  // Use AI to identify top 3 movies with confidence
+  report?.({ stage: "analyzing", message: "Asking the AI which movie this is" });
+  try {
+    const aiResult = pinEpisodeFromMetadata(await identifyMoviesWithAI(metadata, startTime), metadata);
+
+    const nonTitleContent = aiResult.contentType && NON_TITLE_CONTENT[aiResult.contentType];
+    if (nonTitleContent) {
+      report?.({ stage: "analyzing", message: `Looks like ${nonTitleContent}, not a movie or show` });
+      return {
+        status: 200,
+        body: { ...extras, contentType: aiResult.contentType, detailedReasoning: aiResult.detailedReasoning },
+      };
+    }
+
+    return await buildIdentifyResult(
+      aiResult,
+      { ...extras, ...(aiResult.contentType ? { contentType: aiResult.contentType } : {}) },
+      undefined,
+      report,
+      metadataEvidenceText(metadata)
     );
-    if (officialTrailer) {
-      trailer = `https://www.youtube.com/watch?v=${officialTrailer.key}`;
+  } catch (error) {
+    if (!(error instanceof AIUnavailableError)) throw error;
+
+    console.warn("AI unavailable, using heuristic identification:", error.message);
+    report?.({ stage: "analyzing", message: "AI unavailable, searching TMDB for names in the title, hashtags and comments" });
+
+    const heuristicResult = await identifyMoviesHeuristically(metadata);
+    if (!heuristicResult) throw error;
+    return await buildIdentifyResult(heuristicResult, { ...extras, mode: "heuristic" }, undefined, report, metadataEvidenceText(metadata));
+  }
+}
+
+// Base64 data URLs are ~4/3 the size of the image; keep uploads under ~5 MB
+const MAX_IMAGE_DATA_LENGTH = 7_000_000;
+const MAX_VIDEO_FRAMES = 8;
+
+function isImageDataUrl(value: unknown): value is string {
+  return typeof value === "string" && /^data:image\/(?:png|jpe?g|webp|gif);base64,/.test(value);
+}
+
+async function handleImageIdentification(imageData: string, fileName?: string): Promise<Response> {
+  if (!isImageDataUrl(imageData)) {
+    return jsonResponse({ error: "Unsupported image. Please upload a PNG, JPEG, WebP or GIF screenshot." }, 400);
+  }
+  if (imageData.length > MAX_IMAGE_DATA_LENGTH) {
+    return jsonResponse({ error: "Image is too large. Please upload a screenshot under 5 MB." }, 400);
+  }
+
+  console.log("Processing image:", fileName || "(unnamed)");
+
+  const aiResult = await identifyMoviesFromImages([imageData], fileName);
+
+  // The client already holds the image, so it is not echoed back as the thumbnail
+  return buildIdentifyResponse(aiResult, {
+    videoThumbnail: "",
+    source: { id: "image", label: "Screenshot", capabilities: { captions: false, comments: false, description: false } },
+  });
+}
+
+async function handleFramesIdentification(frames: unknown, fileName?: string): Promise<Response> {
+  if (!Array.isArray(frames) || frames.length === 0 || !frames.every(isImageDataUrl)) {
+    return jsonResponse({ error: "No readable frames were sampled from this video." }, 400);
+  }
+  if (frames.length > MAX_VIDEO_FRAMES) {
+    return jsonResponse({ error: `Please send at most ${MAX_VIDEO_FRAMES} frames.` }, 400);
+  }
+  if (frames.reduce((total, frame) => total + frame.length, 0) > MAX_IMAGE_DATA_LENGTH) {
+    return jsonResponse({ error: "Sampled frames are too large. Please try a shorter or lower-resolution video." }, 400);
+  }
+
+  console.log("Processing video file:", fileName || "(unnamed)", "frames:", frames.length);
+
+  const aiResult = await identifyMoviesFromImages(frames, fileName);
+
+  // Frames come from the client, which renders its own copies on the result card
+  return buildIdentifyResponse(aiResult, {
+    videoThumbnail: "",
+    source: { id: "video-file", label: "Video file", capabilities: { captions: false, comments: false, description: false } },
+  });
+}
+
+const MAX_QUOTE_LENGTH = 500;
+
+async function handleQuoteIdentification(quote: unknown): Promise<Response> {
+  const text = typeof quote === "string" ? quote.trim() : "";
+  if (text.length < 3) {
+    return jsonResponse({ error: "Please enter a longer quote." }, 400);
+  }
+  if (text.length > MAX_QUOTE_LENGTH) {
+    return jsonResponse({ error: `Please keep the quote under ${MAX_QUOTE_LENGTH} characters.` }, 400);
+  }
+
+  console.log("Processing quote:", text);
+
+  const aiResult = await identifyMoviesFromQuote(text);
+
+  return buildIdentifyResponse(aiResult, {
+    videoThumbnail: "",
+    source: { id: "quote", label: "Quote", capabilities: { captions: false, comments: false, description: false } },
+    searchQuery: text,
+  });
+}
+
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+async function handleDescriptionIdentification(description: unknown): Promise<Response> {
+  const text = typeof description === "string" ? description.trim() : "";
+  if (text.length < 10) {
+    return jsonResponse({ error: "Please describe the movie in a bit more detail." }, 400);
+  }
+  if (text.length > MAX_DESCRIPTION_LENGTH) {
+    return jsonResponse({ error: `Please keep the description under ${MAX_DESCRIPTION_LENGTH} characters.` }, 400);
+  }
+
+  console.log("Processing description:", text);
+
+  const aiResult = await identifyMoviesFromDescription(text);
+
+  return buildIdentifyResponse(
+    aiResult,
+    {
+      videoThumbnail: "",
+      source: { id: "description", label: "Description", capabilities: { captions: false, comments: false, description: false } },
+      searchQuery: text,
+    },
+    (movie) => explainDescriptionMatch(text, movie)
+  );
+}
+
+// Each item runs the full identification pipeline, so keep a few in flight without flooding the AI gateway
+const PLAYLIST_CONCURRENCY = 3;
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
     }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
+
+interface PlaylistItemResult {
+  videoId: string;
+  videoUrl: string;
+  title: string;
+  thumbnail: string;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+async function identifyPlaylist(playlistId: string, report?: ProgressReporter): Promise<IdentifyResult> {
+  report?.({ stage: "metadata", message: "Reading the playlist" });
+  const playlist = await getPlaylist(playlistId);
+  if (playlist.videos.length === 0) {
+    return { status: 404, body: { error: "This playlist is empty or private" } };
   }
 
-  const posterUrl = details.poster_path 
-    ? `https://image.tmdb.org/t/p/w500${details.poster_path}`
-    : "";
+  console.log("Processing playlist:", playlistId, playlist.videos.length, "videos");
 
-  return {
-    title: details.title,
-    year: details.release_date ? details.release_date.split("-")[0] : "Unknown",
-    poster: posterUrl,
-    plot: details.overview || "No plot available.",
-    rating: details.vote_average ? details.vote_average.toFixed(1) : "N/A",
-    runtime: details.runtime ? `${details.runtime} min` : "Unknown",
-    genres: details.genres?.map((g: any) => g.name) || [],
-    trailer,
-    tmdbId: details.id,
-    aiReasoning: "",
+  // Finished items are reported in playlist order so a polling client can render them as they arrive
+  const finished: PlaylistItemResult[] = [];
+  const reportItem = (item: PlaylistItemResult, index: number) => {
+    finished[index] = item;
+    const movieTitle = (item.result?.movie as MovieResult | undefined)?.title;
+    report?.({
+      stage: "playlist",
+      message: movieTitle ? `${item.title || item.videoId}: ${movieTitle}` : `${item.title || item.videoId}: not identified`,
+      completedItems: finished.filter(Boolean).length,
+      totalItems: playlist.videos.length,
+      partialResult: { playlist: { id: playlist.id, title: playlist.title, items: finished.filter(Boolean) } },
+    });
   };
+  report?.({
+    stage: "playlist",
+    message: `Found ${playlist.videos.length} videos`,
+    completedItems: 0,
+    totalItems: playlist.videos.length,
+  });
+
+  const adapter = sourceAdapters.find((a) => a.id === "youtube")!;
+  const items = await mapWithConcurrency(playlist.videos, PLAYLIST_CONCURRENCY, async (video, index) => {
+    const item = await identifyPlaylistVideo(adapter, video);
+    reportItem(item, index);
+    return item;
+  });
+
+  return { status: 200, body: { playlist: { id: playlist.id, title: playlist.title, items } } };
 }
 
-// Fetch streaming providers from TMDB
-async function getStreamingProviders(tmdbId: number): Promise<StreamingProvider[]> {
-  const TMDB_API_KEY = Deno.env.get("TMDB_API_KEY");
-  if (!TMDB_API_KEY) return [];
+async function identifyPlaylistVideo(adapter: SourceAdapter, video: PlaylistVideo): Promise<PlaylistItemResult> {
+  const videoUrl = `https://www.youtube.com/watch?v=${video.videoId}`;
+  const item = {
+    videoId: video.videoId,
+    videoUrl,
+    title: video.title,
+    thumbnail: `https://img.youtube.com/vi/${video.videoId}/mqdefault.jpg`,
+  };
 
+  // One failing video should not sink the whole playlist
   try {
-    const response = await fetch(
-      `https://api.themoviedb.org/3/movie/${tmdbId}/watch/providers?api_key=${TMDB_API_KEY}`
-    );
-    
-    if (!response.ok) return [];
-    
-    const data = await response.json();
-    
-    // Try to get US providers, fallback to first available region
-    const regionData = data.results?.US || Object.values(data.results || {})[0] as any;
-    
-    if (!regionData) return [];
+    const { status, body } = await identifyVideo(adapter, videoUrl);
+    if (status !== 200) {
+      return { ...item, error: typeof body.error === "string" ? body.error : "Could not identify this video" };
+    }
+    return { ...item, title: item.title || String(body.videoTitle || ""), result: body };
+  } catch (error) {
+    console.error("Error identifying playlist video:", video.videoId, error);
+    return { ...item, error: error instanceof Error ? error.message : "Could not identify this video" };
+  }
+}
 
-    const providers: StreamingProvider[] = [];
-    const seen = new Set<string>();
+async function identifyVideoUrl(videoUrl: string, report?: ProgressReporter): Promise<IdentifyResult> {
+  const playlistId = extractPlaylistId(videoUrl);
+  if (playlistId) {
+    return identifyPlaylist(playlistId, report);
+  }
 
-    // Add subscription (flatrate) providers
-    if (regionData.flatrate) {
-      for (const p of regionData.flatrate.slice(0, 4)) {
-        if (!seen.has(p.provider_name)) {
-          seen.add(p.provider_name);
-          providers.push({
-            name: p.provider_name,
-            logo: `https://image.tmdb.org/t/p/original${p.logo_path}`,
-            link: regionData.link || "",
-            type: "subscription",
-          });
-        }
-      }
-    }
+  const adapter = findSourceAdapter(videoUrl);
+  if (!adapter) {
+    return { status: 400, body: { error: unsupportedUrlMessage() } };
+  }
 
-    // Add rent providers
-    if (regionData.rent) {
-      for (const p of regionData.rent.slice(0, 2)) {
-        if (!seen.has(p.provider_name)) {
-          seen.add(p.provider_name);
-          providers.push({
-            name: p.provider_name,
-            logo: `https://image.tmdb.org/t/p/original${p.logo_path}`,
-            link: regionData.link || "",
-            type: "rent",
-          });
-        }
-      }
-    }
+  return identifyVideo(adapter, videoUrl, report);
+}
 
-    return providers.slice(0, 6);
-  } catch (error) {
-    console.error("Error fetching streaming providers:", error);
-    return [];
+function unsupportedUrlMessage(): string {
+  return `Unsupported URL. Supported sources: ${sourceAdapters.map((a) => a.label).join(", ")}.`;
+}
+
+const JOBS_TABLE = "identify_jobs";
+// A job that stops reporting for this long was cut off by the runtime's wall-clock limit
+const JOB_STALE_AFTER_MS = 10 * 60 * 1000;
+// Jobs untouched for this long can no longer be resumed and are deleted
+const JOB_RETENTION = "7 days";
+// Playlists report the whole partial result after every item; it is stored at most this often
+const PARTIAL_RESULT_WRITE_INTERVAL_MS = 5000;
+
+interface IdentifyJobRow {
+  id: string;
+  status: "queued" | "running" | "completed" | "failed";
+  stage: JobStage;
+  stage_message: string | null;
+  top_candidate: { title: string; confidence: number } | null;
+  completed_items: number | null;
+  total_items: number | null;
+  partial_result: Record<string, unknown> | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  updated_at: string;
+}
+
+function getJobsClient() {
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error("Job storage is not configured");
   }
+  return createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 }
 
-// Fetch similar movies from TMDB
-async function getSimilarMovies(tmdbId: number): Promise<SimilarMovie[]> {
-  const TMDB_API_KEY = Deno.env.get("TMDB_API_KEY");
-  if (!TMDB_API_KEY) return [];
+async function updateJob(jobId: string, changes: Partial<Omit<IdentifyJobRow, "id" | "updated_at">>): Promise<void> {
+  const { error } = await getJobsClient().from(JOBS_TABLE).update(changes).eq("id", jobId);
+  if (error) console.error("Error updating job:", jobId, error.message);
+}
 
-  try {
-    const response = await fetch(
-      `https://api.themoviedb.org/3/movie/${tmdbId}/similar?api_key=${TMDB_API_KEY}&page=1`
+async function deleteExpiredJobs(): Promise<void> {
+  const { data, error } = await getJobsClient().rpc("delete_expired_identify_jobs", { retention: JOB_RETENTION });
+  if (error) console.error("Error deleting expired jobs:", error.message);
+  else if (data > 0) console.log("Deleted expired jobs:", data);
+}
+
+type JobEventSender = (event: "job" | "progress" | "done", data: unknown) => void;
+
+async function runIdentifyJob(jobId: string, videoUrl: string, sendEvent?: JobEventSender): Promise<void> {
+  // Progress writes are chained so a slow update can never overwrite a newer one
+  let progressWrites = updateJob(jobId, { status: "running" });
+  let lastPartialWrite = 0;
+  const report: ProgressReporter = (progress) => {
+    sendEvent?.("progress", progress);
+    // The final result replaces whatever partial result was skipped here
+    const writePartial = progress.partialResult !== undefined && Date.now() - lastPartialWrite >= PARTIAL_RESULT_WRITE_INTERVAL_MS;
+    if (writePartial) lastPartialWrite = Date.now();
+    progressWrites = progressWrites.then(() =>
+      updateJob(jobId, {
+        stage: progress.stage,
+        ...(progress.message ? { stage_message: progress.message } : {}),
+        ...(progress.topCandidate ? { top_candidate: progress.topCandidate } : {}),
+        ...(progress.completedItems !== undefined ? { completed_items: progress.completedItems } : {}),
+        ...(progress.totalItems !== undefined ? { total_items: progress.totalItems } : {}),
+        ...(writePartial ? { partial_result: progress.partialResult } : {}),
+      })
     );
-    
-    if (!response.ok) return [];
-    
-    const data = await response.json();
-    
-    return (data.results || []).slice(0, 6).map((m: any) => ({
-      id: m.id,
-      title: m.title,
-      poster: m.poster_path ? `https://image.tmdb.org/t/p/w200${m.poster_path}` : "",
-      year: m.release_date ? m.release_date.split("-")[0] : "Unknown",
-      genres: [], // Genre info not included in similar endpoint
-    }));
+  };
+
+  try {
+    const { status, body } = await identifyVideoUrl(videoUrl, report);
+    const outcome = {
+      status: status === 200 ? "completed" as const : "failed" as const,
+      stage: "done" as const,
+      result: body,
+      error: typeof body.error === "string" ? body.error : null,
+    };
+    await progressWrites;
+    await updateJob(jobId, outcome);
+    sendEvent?.("done", { jobId, ...outcome });
   } catch (error) {
-    console.error("Error fetching similar movies:", error);
-    return [];
+    console.error("Error running job:", jobId, error);
+    const outcome = {
+      status: "failed" as const,
+      stage: "done" as const,
+      error: error instanceof Error ? error.message : "An unexpected error occurred",
+    };
+    await progressWrites;
+    await updateJob(jobId, outcome);
+    sendEvent?.("done", { jobId, ...outcome });
+  }
+}
+
+// Server-sent events for a job that runs while the client watches; the job keeps running if the client goes away
+function createEventStream() {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) { controller = streamController; },
+    cancel() { closed = true; },
+  });
+
+  const send: JobEventSender = (event, data) => {
+    if (closed) return;
+    try {
+      controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+    } catch {
+      closed = true;
+    }
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    controller.close();
+  };
+
+  return { stream, send, close };
+}
+
+async function createIdentifyJob(videoUrl: string, stream: boolean): Promise<Response> {
+  if (!extractPlaylistId(videoUrl) && !findSourceAdapter(videoUrl)) {
+    return jsonResponse({ error: unsupportedUrlMessage() }, 400);
+  }
+
+  const { data, error } = await getJobsClient()
+    .from(JOBS_TABLE)
+    .insert({ request: { videoUrl }, status: "queued", stage: "queued" })
+    .select("id")
+    .single();
+  if (error || !data) {
+    throw new Error(`Could not create job: ${error?.message ?? "no row returned"}`);
+  }
+
+  console.log("Queued job:", data.id, videoUrl, stream ? "(streaming)" : "");
+  const queued = { jobId: data.id, status: "queued", stage: "queued" };
+
+  // The job reports its first stage before its first await, so the client must learn the job id before that
+  const events = stream ? createEventStream() : null;
+  events?.send("job", queued);
+
+  const job = runIdentifyJob(data.id, videoUrl, events?.send).finally(() => events?.close());
+  const cleanup = deleteExpiredJobs();
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(Promise.all([job, cleanup]));
+  }
+
+  if (events) {
+    return new Response(events.stream, {
+      headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
+  }
+  return jsonResponse(queued, 202);
+}
+
+// Full details for one TMDB id, used when the user switches a match to another version of the same title
+async function handleMovieDetails(tmdbId: unknown, mediaType: unknown): Promise<Response> {
+  if (typeof tmdbId !== "number" || !Number.isInteger(tmdbId) || tmdbId <= 0) {
+    return jsonResponse({ error: "Invalid TMDB id" }, 400);
+  }
+  if (mediaType !== undefined && mediaType !== "movie" && mediaType !== "tv") {
+    return jsonResponse({ error: "Invalid media type" }, 400);
   }
+
+  const details = await getMovieDetails(tmdbId, mediaType);
+  if (!details) {
+    return jsonResponse({ error: "Could not find movie information." }, 404);
+  }
+
+  // A switched-to version has its own providers and recommendations
+  const [streamingProviders, similarMovies] = await Promise.all([
+    getStreamingProviders(tmdbId, mediaType),
+    getSimilarMovies(tmdbId, mediaType),
+  ]);
+  return jsonResponse({ movie: details.movie, streamingProviders, similarMovies });
+}
+
+async function handleJobStatus(jobId: unknown): Promise<Response> {
+  if (typeof jobId !== "string" || !/^[0-9a-f-]{36}$/i.test(jobId)) {
+    return jsonResponse({ error: "Invalid job id" }, 400);
+  }
+
+  const { data, error } = await getJobsClient()
+    .from(JOBS_TABLE)
+    .select("id, status, stage, stage_message, top_candidate, completed_items, total_items, partial_result, result, error, updated_at")
+    .eq("id", jobId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Could not read job: ${error.message}`);
+  }
+  if (!data) {
+    return jsonResponse({ error: "Job not found" }, 404);
+  }
+
+  const job = data as IdentifyJobRow;
+  const isActive = job.status === "queued" || job.status === "running";
+  if (isActive && Date.now() - new Date(job.updated_at).getTime() > JOB_STALE_AFTER_MS) {
+    job.status = "failed";
+    job.stage = "done";
+    job.error = "The identification took too long and was stopped. Please try again.";
+    await updateJob(job.id, { status: job.status, stage: job.stage, error: job.error });
+  }
+
+  return jsonResponse({
+    jobId: job.id,
+    status: job.status,
+    stage: job.stage,
+    message: job.stage_message,
+    topCandidate: job.top_candidate,
+    completedItems: job.completed_items,
+    totalItems: job.total_items,
+    partialResult: job.partial_result,
+    result: job.result,
+    error: job.error,
+  });
 }
 
 serve(async (req) => {
@@ -491,89 +3098,52 @@ serve(async (req) => {
   }
 
   try {
-    const { videoUrl } = await req.json();
-    
-    if (!videoUrl) {
-      return new Response(
-        JSON.stringify({ error: "Video URL is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    const { videoUrl, imageData, frames, fileName, quote, description, jobId, tmdbId, mediaType, async: runAsync, stream } = await req.json();
+
+    if (jobId !== undefined) {
+      return await handleJobStatus(jobId);
     }
 
-    const videoId = extractVideoId(videoUrl);
-    if (!videoId) {
-      return new Response(
-        JSON.stringify({ error: "Invalid YouTube URL. Please provide a valid YouTube video link." }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (tmdbId !== undefined) {
+      return await handleMovieDetails(tmdbId, mediaType);
     }
 
-    console.log("Processing video:", videoId);
+    if (imageData) {
+      return await handleImageIdentification(imageData, fileName);
+    }
 
-    // Get YouTube metadata
-    const metadata = await getYouTubeMetadata(videoId);
-    console.log("Metadata fetched:", {
-      title: metadata.title,
-      channel: metadata.channelTitle,
-      captionsAvailable: metadata.captionsAvailable,
-      commentKeywords: metadata.commentKeywords.length,
-    });
+    if (frames) {
+      return await handleFramesIdentification(frames, fileName);
+    }
 
-    // Use AI to identify top 3 movies with confidence
-    const aiResult = await identifyMoviesWithAI(metadata);
-    console.log("AI identified matches:", aiResult.matches.map(m => m.movieTitle));
-
-    // Get TMDB data for all matches in parallel
-    const moviePromises = aiResult.matches.map(async (match) => {
-      const movieData = await getMovieFromTMDB(match.movieTitle);
-      if (!movieData) return null;
-      
-      movieData.aiReasoning = aiResult.detailedReasoning;
-      
-      return {
-        movie: movieData,
-        confidence: match.confidence,
-        matchReasons: match.reasons,
-      } as MovieMatch;
-    });
+    if (quote !== undefined) {
+      return await handleQuoteIdentification(quote);
+    }
 
-    const allMatches = (await Promise.all(moviePromises)).filter((m): m is MovieMatch => m !== null);
+    if (description !== undefined) {
+      return await handleDescriptionIdentification(description);
+    }
     
-    if (allMatches.length === 0) {
-      return new Response(
-        JSON.stringify({ 
-          error: "Could not find movie information. The AI suggested: " + aiResult.matches[0]?.movieTitle,
-          aiReasoning: aiResult.detailedReasoning 
-        }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (!videoUrl) {
+      return jsonResponse({ error: "Video URL is required" }, 400);
     }
 
-    const bestMatch = allMatches[0];
-
-    // Fetch streaming providers and similar movies for the best match
-    const [streamingProviders, similarMovies] = await Promise.all([
-      getStreamingProviders(bestMatch.movie.tmdbId),
-      getSimilarMovies(bestMatch.movie.tmdbId),
-    ]);
-
-    return new Response(
-      JSON.stringify({ 
-        movie: bestMatch.movie, 
-        videoThumbnail: metadata.thumbnail,
-        matches: allMatches,
-        streamingProviders,
-        similarMovies,
-        detailedReasoning: aiResult.detailedReasoning,
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    // Long-running links (playlists, slow upstreams) are queued and polled by job id,
+    // optionally streaming the job's progress back over the same request
+    if (runAsync || stream) {
+      return await createIdentifyJob(videoUrl, stream === true);
+    }
 
+    const { status, body } = await identifyVideoUrl(videoUrl);
+    return jsonResponse(body, status);
   } catch (error) {
     console.error("Error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "An unexpected error occurred" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    if (error instanceof AIResponseError) {
+      return jsonResponse({ error: error.message, code: "invalid_ai_response", issues: error.issues }, 502);
+    }
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "An unexpected error occurred" },
+      500
     );
   }
 });
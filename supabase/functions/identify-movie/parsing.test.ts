@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { extractStartTime, parseChapters, parseEpisodeNumbers, parseOfficialClipTitle } from "./parsing.ts";
+
+describe("extractStartTime", () => {
+  it("reads plain seconds", () => {
+    expect(extractStartTime("https://youtu.be/abc123?t=754")).toBe(754);
+    expect(extractStartTime("https://www.youtube.com/watch?v=abc123&t=754s")).toBe(754);
+  });
+
+  it("reads hour, minute and second units", () => {
+    expect(extractStartTime("https://www.youtube.com/watch?v=abc123&t=12m34s")).toBe(754);
+    expect(extractStartTime("https://www.youtube.com/watch?v=abc123&t=1h2m3s")).toBe(3723);
+    expect(extractStartTime("https://www.youtube.com/watch?v=abc123&t=2m")).toBe(120);
+  });
+
+  it("reads clock times and the start parameter", () => {
+    expect(extractStartTime("https://www.youtube.com/watch?v=abc123&t=12:34")).toBe(754);
+    expect(extractStartTime("https://www.youtube.com/embed/abc123?start=90")).toBe(90);
+    expect(extractStartTime("https://vimeo.com/123456#t=1m30s")).toBe(90);
+  });
+
+  it("returns null without a usable time", () => {
+    expect(extractStartTime("https://www.youtube.com/watch?v=abc123")).toBeNull();
+    expect(extractStartTime("https://www.youtube.com/watch?v=abc123&t=hms")).toBeNull();
+    expect(extractStartTime("https://example.com/?list=t")).toBeNull();
+  });
+
+  it("ignores parameter values that only start like a time", () => {
+    expect(extractStartTime("https://www.youtube.com/watch?v=abc123&t=7XkPq2sL9dZ0aB1cD2eF3g")).toBeNull();
+    expect(extractStartTime("https://www.youtube.com/watch?v=abc123&t=12mAbCdEf")).toBeNull();
+    expect(extractStartTime("https://www.youtube.com/watch?v=abc123&t=90&feature=share")).toBe(90);
+  });
+
+  it("ignores t= and start= on hosts whose links carry no playback offset", () => {
+    expect(extractStartTime("https://x.com/user/status/1790000000000000000?s=46&t=7XkPq2sL9dZ0aB1cD2eF3g")).toBeNull();
+    expect(extractStartTime("https://x.com/user/status/1790000000000000000?s=20&t=12")).toBeNull();
+    expect(extractStartTime("https://www.tiktok.com/@user/video/7300000000000000000?is_from_webapp=1&t=1700000000")).toBeNull();
+    expect(extractStartTime("not a url?t=90")).toBeNull();
+  });
+
+  it("reads offsets on every seekable host", () => {
+    expect(extractStartTime("https://m.youtube.com/watch?v=abc123&t=45")).toBe(45);
+    expect(extractStartTime("https://www.dailymotion.com/video/x8abc12?start=30")).toBe(30);
+    expect(extractStartTime("https://dai.ly/x8abc12?start=1m")).toBe(60);
+  });
+});
+
+describe("parseChapters", () => {
+  it("reads a chapter list with end times from the next chapter", () => {
+    const description = ["Best car chases", "", "0:00 Intro", "1:12 - Hallway fight", "1:02:03 Finale"].join("\n");
+    expect(parseChapters(description)).toEqual([
+      { start: 0, end: 72, title: "Intro" },
+      { start: 72, end: 3723, title: "Hallway fight" },
+      { start: 3723, title: "Finale" },
+    ]);
+  });
+
+  it("keeps the movie named after a dash, bar or in parentheses as a hint", () => {
+    const chapters = parseChapters(["0:00 Hallway fight — Oldboy", "2:30 Bank heist | Heat", "5:00 Car chase (Bullitt)"].join("\n"));
+    expect(chapters.map((chapter) => chapter.movieHint)).toEqual(["Oldboy", "Heat", "Bullitt"]);
+  });
+
+  it("reads titles written before the timestamp and sorts by start", () => {
+    const chapters = parseChapters(["Car chase 3:00", "Opening 0:15"].join("\n"));
+    expect(chapters).toEqual([
+      { start: 15, end: 180, title: "Opening" },
+      { start: 180, title: "Car chase" },
+    ]);
+  });
+
+  it("ignores a single timestamp and lines without a title", () => {
+    expect(parseChapters("The best part is at 3:45 - watch it")).toEqual([]);
+    expect(parseChapters(["0:00", "1:00 -", "2:00 Only chapter"].join("\n"))).toEqual([]);
+  });
+});
+
+describe("parseOfficialClipTitle", () => {
+  it("reads the movie and year from Movieclips titles", () => {
+    expect(parseOfficialClipTitle("Inception (2010) - Hallway Fight Scene (5/10) | Movieclips", "Movieclips")).toEqual({
+      movieTitle: "Inception",
+      year: 2010,
+    });
+  });
+
+  it("reads Netflix trailer titles, including series", () => {
+    expect(parseOfficialClipTitle("Glass Onion: A Knives Out Mystery | Official Trailer | Netflix", "Netflix")).toEqual({
+      movieTitle: "Glass Onion: A Knives Out Mystery",
+    });
+    expect(parseOfficialClipTitle("Stranger Things 4 | Official Trailer | Netflix", "Netflix")).toEqual({
+      movieTitle: "Stranger Things 4",
+    });
+  });
+
+  it("reads studio trailer titles", () => {
+    expect(parseOfficialClipTitle("DUNE: PART TWO - Official Trailer 3", "Warner Bros. Pictures")).toEqual({ movieTitle: "DUNE: PART TWO" });
+    expect(parseOfficialClipTitle("Oppenheimer | New Trailer", "Universal Pictures")).toEqual({ movieTitle: "Oppenheimer" });
+  });
+
+  it("ignores other channels and titles outside the channel's format", () => {
+    expect(parseOfficialClipTitle("Inception (2010) - Hallway Fight Scene", "Movie Fan Edits")).toBeNull();
+    expect(parseOfficialClipTitle("Behind the scenes of our new office", "Netflix")).toBeNull();
+  });
+});
+
+describe("parseEpisodeNumbers", () => {
+  it("reads the common episode formats", () => {
+    expect(parseEpisodeNumbers("Breaking Bad S05E14 - Ozymandias")).toEqual({ season: 5, episode: 14 });
+    expect(parseEpisodeNumbers("The Office 2x05 Halloween")).toEqual({ season: 2, episode: 5 });
+    expect(parseEpisodeNumbers("Season 2 Episode 5 best scene")).toEqual({ season: 2, episode: 5 });
+    expect(parseEpisodeNumbers("Succession | Season 4, Ep. 3")).toEqual({ season: 4, episode: 3 });
+  });
+
+  it("returns null when no episode is named", () => {
+    expect(parseEpisodeNumbers("Top 10 scenes of 2024")).toBeNull();
+    expect(parseEpisodeNumbers("Filmed in 1920x1080")).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+// Pure text parsers for video metadata, kept free of runtime imports so they can be unit tested
+
+export interface Chapter {
+  start: number;
+  end?: number;
+  title: string;
+  movieHint?: string;
+}
+
+export const TIMESTAMP_PATTERN = /\b(?:(\d{1,2}):)?(\d{1,2}):(\d{2})\b/g;
+
+export function timestampToSeconds(match: RegExpMatchArray): number {
+  return parseInt(match[1] || "0", 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+}
+
+// Hosts whose t= / start= parameters are a playback offset; elsewhere they mean something else
+// (X share tokens, TikTok Unix timestamps)
+const SEEKABLE_HOST_PATTERN = /(?:^|\.)(?:youtube\.com|youtube-nocookie\.com|youtu\.be|vimeo\.com|dailymotion\.com|dai\.ly)$/i;
+
+function isSeekableHost(url: string): boolean {
+  try {
+    return SEEKABLE_HOST_PATTERN.test(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Reads t= / start= from a YouTube, Vimeo or Dailymotion link: "754", "754s", "12m34s", "1h2m3s" or "12:34"
+export function extractStartTime(url: string): number | null {
+  if (!isSeekableHost(url)) return null;
+
+  // The whole parameter value must be a time, so tokens that merely start with digits don't count
+  const value = url.match(/[?&#](?:t|start)=([0-9hms:]+)(?=[&#]|$)/)?.[1];
+  if (!value) return null;
+
+  if (/^\d+s?$/.test(value)) return parseInt(value, 10);
+
+  const units = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units && (units[1] || units[2] || units[3])) {
+    return parseInt(units[1] || "0", 10) * 3600 + parseInt(units[2] || "0", 10) * 60 + parseInt(units[3] || "0", 10);
+  }
+
+  const clock = Array.from(value.matchAll(TIMESTAMP_PATTERN))[0];
+  return clock ? timestampToSeconds(clock) : null;
+}
+
+// Description chapter lists: "0:00 Intro", "1:12 - Hallway fight — Oldboy" or "Hallway fight 1:12".
+// When a chapter title ends in "— Movie", "| Movie" or "(Movie)" that part is kept as a hint.
+export function parseChapters(description: string): Chapter[] {
+  const chapters: Chapter[] = [];
+
+  for (const line of description.split("\n")) {
+    const match = Array.from(line.matchAll(TIMESTAMP_PATTERN))[0];
+    if (!match) continue;
+
+    const before = line.slice(0, match.index).trim();
+    const after = line.slice(match.index! + match[0].length).trim();
+    const title = (after || before).replace(/^[\s\-–—:|.)]+|[\s\-–—:|(]+$/g, "").trim();
+    if (!title) continue;
+
+    const hint = title.match(/^(.+)\s+(?:[—–|]|-)\s+(.+)$/) || title.match(/^(.+?)\s*\(([^)]+)\)$/);
+    chapters.push({
+      start: timestampToSeconds(match),
+      title: title.slice(0, 120),
+      ...(hint ? { movieHint: hint[2].trim().slice(0, 80) } : {}),
+    });
+  }
+
+  // A single timestamp in a description is usually a comment-style reference, not a chapter list
+  if (chapters.length < 2) return [];
+
+  chapters.sort((a, b) => a.start - b.start);
+  return chapters.map((chapter, index) => ({
+    ...chapter,
+    ...(chapters[index + 1] ? { end: chapters[index + 1].start } : {}),
+  }));
+}
+
+interface ClipTitleRule {
+  channel: RegExp;
+  // Must capture the film in a named "movie" group; "year" is optional
+  title: RegExp;
+}
+
+// Studio and clip channels that name every upload in a fixed format
+const CLIP_TITLE_RULES: ClipTitleRule[] = [
+  // "Inception (2010) - Hallway Fight Scene (5/10) | Movieclips"
+  {
+    channel: /^(?:movieclips|fandango ?movieclips|movieclips classic trailers)$/i,
+    title: /^(?<movie>.+?) \((?<year>\d{4})\) - .+/,
+  },
+  // "Glass Onion: A Knives Out Mystery | Official Trailer | Netflix"
+  {
+    channel: /^netflix$/i,
+    title: /^(?<movie>.+?) \| Official (?:Trailer|Teaser|Clip)\b.*\| Netflix$/i,
+  },
+  // "DUNE: PART TWO - Official Trailer 3", "Oppenheimer | New Trailer"
+  {
+    channel: /^(?:warner bros\.? pictures|sony pictures entertainment|universal pictures|paramount pictures|20th century studios|lionsgate movies|walt disney studios|a24)$/i,
+    title: /^(?<movie>.+?)\s+[|–-]\s+(?:Official\s+)?(?:Final\s+|New\s+|Teaser\s+)?(?:Trailer|Teaser|Clip)\b/i,
+  },
+];
+
+// The movie or series an official clip channel named in its upload title, or null when no rule matches
+export function parseOfficialClipTitle(title: string, channelTitle: string): { movieTitle: string; year?: number } | null {
+  for (const rule of CLIP_TITLE_RULES) {
+    if (!rule.channel.test(channelTitle.trim())) continue;
+
+    const match = title.trim().match(rule.title);
+    const movieTitle = match?.groups?.movie?.trim();
+    if (!movieTitle) continue;
+
+    const year = match?.groups?.year;
+    return { movieTitle, ...(year ? { year: Number(year) } : {}) };
+  }
+  return null;
+}
+
+// "S02E05", "2x05", "Season 2 Episode 5" or "Season 2, Ep. 5" in an upload's title or description
+export function parseEpisodeNumbers(text: string): { season: number; episode: number } | null {
+  const match = text.match(/\bS(\d{1,2})\s*E(\d{1,3})\b/i)
+    ?? text.match(/\b(\d{1,2})x(\d{1,3})\b/)
+    ?? text.match(/\bSeason\s*(\d{1,2})\W{0,3}\s*(?:Episode|Ep\.?)\s*(\d{1,3})\b/i);
+  return match ? { season: Number(match[1]), episode: Number(match[2]) } : null;
+}
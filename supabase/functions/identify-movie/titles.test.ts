@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { normalizeTitle, titleSimilarity } from "./titles.ts";
+
+describe("normalizeTitle", () => {
+  it("lowercases and collapses punctuation into single spaces", () => {
+    expect(normalizeTitle("  Spider-Man: No Way Home! ")).toBe("spider man no way home");
+    expect(normalizeTitle("Amélie")).toBe("amélie");
+    expect(normalizeTitle("Why so serious?!\n  [music]")).toBe("why so serious music");
+  });
+});
+
+describe("titleSimilarity", () => {
+  it("scores the same title as 1 regardless of case and punctuation", () => {
+    expect(titleSimilarity("The Dark Knight", "the dark knight")).toBe(1);
+    expect(titleSimilarity("Spider-Man", "Spider Man")).toBe(1);
+  });
+
+  it("scores a title contained as whole words as 0.8", () => {
+    expect(titleSimilarity("Up", "Up in the Air")).toBe(0.8);
+    expect(titleSimilarity("Stranger Things 4", "Stranger Things")).toBe(0.8);
+  });
+
+  it("does not treat a title inside another word as contained", () => {
+    expect(titleSimilarity("Up", "Superman")).toBe(0);
+    expect(titleSimilarity("Heat", "Cheaters")).toBe(0);
+  });
+
+  it("falls back to the share of words in common", () => {
+    expect(titleSimilarity("Harry Potter and the Sorcerer's Stone", "Harry Potter and the Philosopher's Stone")).toBeCloseTo(6 / 8);
+    expect(titleSimilarity("Heat", "Inception")).toBe(0);
+  });
+
+  it("scores empty titles as 0", () => {
+    expect(titleSimilarity("", "Heat")).toBe(0);
+    expect(titleSimilarity("!!", "Heat")).toBe(0);
+  });
+});
@@ -0,0 +1,18 @@
+// How closely two movie or series titles match, shared by TMDB ranking and the heuristic fallback
+
+export const normalizeTitle = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+// 1 for the same title, high when one contains the other's whole words in order, otherwise word overlap
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  // Padded so "up" matches "up in the air" but not "superman"
+  if (` ${left} `.includes(` ${right} `) || ` ${right} `.includes(` ${left} `)) return 0.8;
+
+  const leftWords = new Set(left.split(" "));
+  const rightWords = new Set(right.split(" "));
+  const shared = [...leftWords].filter((word) => rightWords.has(word)).length;
+  return shared / new Set([...leftWords, ...rightWords]).size;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { normalizeConfidences, parseAIContent, validateIdentification } from "./validation.ts";
+
+const match = (movieTitle: string, confidence: number, extra: Record<string, unknown> = {}) => ({
+  movieTitle,
+  confidence,
+  reasons: [`Title mentions "${movieTitle}"`],
+  ...extra,
+});
+
+const reply = (matches: unknown[], extra: Record<string, unknown> = {}) => ({
+  matches,
+  detailedReasoning: "The title names the movie.",
+  ...extra,
+});
+
+describe("validateIdentification", () => {
+  it("accepts a well-formed reply and keeps optional fields", () => {
+    const { value, issues } = validateIdentification(reply([
+      match("Dune", 60, { year: 2021, mediaType: "movie", scene: { description: "Paul walks the desert", minute: 95, act: 3 } }),
+      match("Dune", 30, { year: 1984 }),
+      match("Stranger Things", 10, { mediaType: "tv", season: 4, episode: 1 }),
+    ], { contentType: "film" }));
+
+    expect(issues).toEqual([]);
+    expect(value?.contentType).toBe("film");
+    expect(value?.matches[0]).toMatchObject({ movieTitle: "Dune", year: 2021, scene: { description: "Paul walks the desert", minute: 95, act: 3 } });
+    expect(value?.matches[0]).not.toHaveProperty("mediaType");
+    expect(value?.matches[2]).toMatchObject({ mediaType: "tv", season: 4, episode: 1 });
+  });
+
+  it("scales confidences to sum to 100", () => {
+    const { value } = validateIdentification(reply([match("Heat", 100), match("Ronin", 60), match("Collateral", 40)]));
+    expect(value?.matches.map((m) => m.confidence)).toEqual([50, 30, 20]);
+  });
+
+  it("rejects replies that are not objects", () => {
+    expect(validateIdentification(null).issues).toEqual(["The reply must be a JSON object"]);
+    expect(validateIdentification([]).issues).toEqual(["The reply must be a JSON object"]);
+  });
+
+  it("lists every problem with the matches", () => {
+    const { value, issues } = validateIdentification(reply([
+      match("", 50),
+      match("Heat", 0),
+      match("Ronin", 20, { reasons: [], scene: { minute: 3 } }),
+    ], { contentType: "podcast" }));
+
+    expect(value).toBeNull();
+    expect(issues).toEqual(expect.arrayContaining([
+      `"contentType" must be one of "film", "series", "music video", "game", "original content", "unknown"`,
+      `Match 1 needs a non-empty "movieTitle"`,
+      `Match 2 "confidence" must be an integer from 1 to 100`,
+      `Match 3 needs a non-empty "reasons" array of strings`,
+      `Match 3 "scene" must be null or an object with a non-empty "description"`,
+    ]));
+  });
+
+  it("requires exactly three matches and a reasoning paragraph", () => {
+    const { issues } = validateIdentification({ matches: [match("Heat", 100)], detailedReasoning: " " });
+    expect(issues).toContain(`"matches" has 1 entries but must have exactly 3`);
+    expect(issues).toContain(`"detailedReasoning" must be a non-empty string`);
+  });
+});
+
+describe("parseAIContent", () => {
+  it("strips code fences before validating", () => {
+    const content = "```json\n" + JSON.stringify(reply([match("Heat", 50), match("Ronin", 30), match("Collateral", 20)])) + "\n```";
+    expect(parseAIContent(content, validateIdentification).issues).toEqual([]);
+  });
+
+  it("reports replies that are not JSON", () => {
+    expect(parseAIContent("It looks like Heat (1995).", validateIdentification)).toEqual({
+      value: null,
+      issues: ["The reply is not a valid JSON object"],
+    });
+  });
+});
+
+describe("normalizeConfidences", () => {
+  const confidences = (values: number[], total?: number) =>
+    normalizeConfidences(values.map((confidence) => ({ confidence })), total).map((m) => m.confidence);
+
+  it("hands rounding leftovers to the largest remainders", () => {
+    expect(confidences([1, 1, 1])).toEqual([34, 33, 33]);
+    expect(confidences([40, 35, 15])).toEqual([44, 39, 17]);
+  });
+
+  it("keeps every match at 1 or more without going over the total", () => {
+    const result = confidences([995, 3, 2]);
+    expect(result).toEqual([98, 1, 1]);
+    expect(result.reduce((sum, value) => sum + value, 0)).toBe(100);
+  });
+
+  it("scales to a custom total", () => {
+    expect(confidences([80, 20], 60)).toEqual([48, 12]);
+  });
+
+  it("leaves all-zero confidences alone", () => {
+    expect(confidences([0, 0])).toEqual([0, 0]);
+  });
+});
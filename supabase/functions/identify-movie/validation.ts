@@ -0,0 +1,226 @@
+// Shapes of the model's JSON replies and the validators that check them, kept free of runtime imports so they can be unit tested
+
+export type MediaType = "movie" | "tv";
+
+export interface AIMatch {
+  movieTitle: string;
+  // Release year and original-language title, used to pick the right version on TMDB
+  year?: number;
+  originalTitle?: string;
+  // Series clips also carry whatever the model could pin down about the episode
+  mediaType?: MediaType;
+  season?: number;
+  episode?: number;
+  episodeTitle?: string;
+  // Anime are often known by romaji, Japanese and English titles at once, and fans refer to story arcs
+  isAnime?: boolean;
+  alternativeTitles?: string[];
+  arc?: string;
+  scene?: SceneInfo;
+  confidence: number;
+  reasons: string[];
+  matchedQuote?: string;
+  captionEvidence?: string[];
+  visualEvidence?: VisualEvidence[];
+}
+
+// Which scene the clip shows and roughly where it falls in the movie
+export interface SceneInfo {
+  description: string;
+  // Approximate minutes into the movie (or episode)
+  minute?: number;
+  // Three-act position: 1 setup, 2 confrontation, 3 resolution
+  act?: 1 | 2 | 3;
+}
+
+export interface VisualEvidence {
+  type: "actor" | "setting" | "text" | "object";
+  detail: string;
+}
+
+export type ContentType = "film" | "series" | "music video" | "game" | "original content" | "unknown";
+
+const CONTENT_TYPES: ContentType[] = ["film", "series", "music video", "game", "original content", "unknown"];
+
+export interface AIIdentification {
+  matches: AIMatch[];
+  detailedReasoning: string;
+  contentType?: ContentType;
+}
+
+// Either the validated value or everything that is wrong with the model's reply
+export type AIValidation<T> = { value: T; issues: [] } | { value: null; issues: string[] };
+
+export type AIValidator<T> = (raw: unknown) => AIValidation<T>;
+
+export function parseAIContent<T>(content: string, validate: AIValidator<T>): AIValidation<T> {
+  let jsonStr = content.trim();
+  if (jsonStr.startsWith("```")) {
+    jsonStr = jsonStr.replace(/```json?\n?/g, "").replace(/```/g, "").trim();
+  }
+
+  try {
+    return validate(JSON.parse(jsonStr));
+  } catch {
+    return { value: null, issues: ["The reply is not a valid JSON object"] };
+  }
+}
+
+export const isNonEmptyString = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0;
+
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const VISUAL_EVIDENCE_TYPES = new Set(["actor", "setting", "text", "object"]);
+
+// Number of ranked candidates every identification prompt asks for
+export const AI_MATCH_COUNT = 3;
+
+function validateScene(raw: unknown, label: string, issues: string[]): SceneInfo | null {
+  if (raw == null) return null;
+
+  const scene = raw as Record<string, unknown>;
+  if (typeof raw !== "object" || !isNonEmptyString(scene.description)) {
+    issues.push(`${label} "scene" must be null or an object with a non-empty "description"`);
+    return null;
+  }
+  if (scene.minute != null && !(Number.isInteger(scene.minute) && (scene.minute as number) >= 0)) {
+    issues.push(`${label} "scene.minute" must be a whole number of minutes or null`);
+    return null;
+  }
+  if (scene.act != null && scene.act !== 1 && scene.act !== 2 && scene.act !== 3) {
+    issues.push(`${label} "scene.act" must be 1, 2, 3 or null`);
+    return null;
+  }
+
+  return {
+    description: scene.description.trim(),
+    ...(scene.minute != null ? { minute: scene.minute as number } : {}),
+    ...(scene.act != null ? { act: scene.act as 1 | 2 | 3 } : {}),
+  };
+}
+
+function validateMatch(raw: unknown, label: string, issues: string[]): AIMatch | null {
+  if (typeof raw !== "object" || raw === null) {
+    issues.push(`${label} is not an object`);
+    return null;
+  }
+
+  const match = raw as Record<string, unknown>;
+  const before = issues.length;
+
+  if (!isNonEmptyString(match.movieTitle)) issues.push(`${label} needs a non-empty "movieTitle"`);
+  if (!Number.isInteger(match.confidence) || (match.confidence as number) < 1 || (match.confidence as number) > 100) {
+    issues.push(`${label} "confidence" must be an integer from 1 to 100`);
+  }
+  if (!isStringArray(match.reasons) || !match.reasons.some(isNonEmptyString)) {
+    issues.push(`${label} needs a non-empty "reasons" array of strings`);
+  }
+  if (match.year != null && !Number.isInteger(match.year)) issues.push(`${label} "year" must be an integer`);
+  if (match.mediaType != null && match.mediaType !== "movie" && match.mediaType !== "tv") {
+    issues.push(`${label} "mediaType" must be "movie" or "tv"`);
+  }
+  for (const field of ["season", "episode"] as const) {
+    if (match[field] != null && !(Number.isInteger(match[field]) && (match[field] as number) >= 0)) {
+      issues.push(`${label} "${field}" must be a whole number or null`);
+    }
+  }
+  if (match.episodeTitle != null && typeof match.episodeTitle !== "string") issues.push(`${label} "episodeTitle" must be a string`);
+  if (match.isAnime != null && typeof match.isAnime !== "boolean") issues.push(`${label} "isAnime" must be true or false`);
+  if (match.alternativeTitles != null && !isStringArray(match.alternativeTitles)) {
+    issues.push(`${label} "alternativeTitles" must be an array of strings`);
+  }
+  if (match.arc != null && typeof match.arc !== "string") issues.push(`${label} "arc" must be a string`);
+  const scene = validateScene(match.scene, label, issues);
+  if (match.originalTitle != null && typeof match.originalTitle !== "string") issues.push(`${label} "originalTitle" must be a string`);
+  if (match.matchedQuote != null && typeof match.matchedQuote !== "string") issues.push(`${label} "matchedQuote" must be a string`);
+  if (match.captionEvidence != null && !isStringArray(match.captionEvidence)) {
+    issues.push(`${label} "captionEvidence" must be an array of strings`);
+  }
+  if (
+    match.visualEvidence != null &&
+    !(Array.isArray(match.visualEvidence) && match.visualEvidence.every((e) =>
+      typeof e === "object" && e !== null && VISUAL_EVIDENCE_TYPES.has(e.type) && typeof e.detail === "string"
+    ))
+  ) {
+    issues.push(`${label} "visualEvidence" must be an array of {"type", "detail"} objects`);
+  }
+  if (issues.length > before) return null;
+
+  return {
+    movieTitle: (match.movieTitle as string).trim(),
+    confidence: match.confidence as number,
+    reasons: (match.reasons as string[]).filter(isNonEmptyString),
+    ...(match.year != null ? { year: match.year as number } : {}),
+    ...(isNonEmptyString(match.originalTitle) ? { originalTitle: match.originalTitle } : {}),
+    ...(match.mediaType === "tv" ? { mediaType: "tv" as const } : {}),
+    ...(match.season != null ? { season: match.season as number } : {}),
+    ...(match.episode != null ? { episode: match.episode as number } : {}),
+    ...(isNonEmptyString(match.episodeTitle) ? { episodeTitle: match.episodeTitle } : {}),
+    ...(match.isAnime === true ? { isAnime: true } : {}),
+    ...(isStringArray(match.alternativeTitles) ? { alternativeTitles: match.alternativeTitles.filter(isNonEmptyString) } : {}),
+    ...(isNonEmptyString(match.arc) ? { arc: match.arc } : {}),
+    ...(scene ? { scene } : {}),
+    ...(isNonEmptyString(match.matchedQuote) ? { matchedQuote: match.matchedQuote } : {}),
+    ...(match.captionEvidence != null ? { captionEvidence: match.captionEvidence as string[] } : {}),
+    ...(match.visualEvidence != null ? { visualEvidence: match.visualEvidence as VisualEvidence[] } : {}),
+  };
+}
+
+// Scale confidences so they sum to exactly `total` (100 by default), handing rounding leftovers to the
+// largest remainders; every match keeps at least 1, taken back from the top match
+export function normalizeConfidences<T extends { confidence: number }>(matches: T[], total = 100): T[] {
+  const current = matches.reduce((sum, match) => sum + match.confidence, 0);
+  if (current <= 0) return matches;
+
+  const scaled = matches.map((match) => (match.confidence / current) * total);
+  const rounded = scaled.map(Math.floor);
+
+  let leftover = total - rounded.reduce((sum, value) => sum + value, 0);
+  const byRemainder = scaled.map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    rounded[index]++;
+    leftover--;
+  }
+
+  const atLeastOne = rounded.map((value) => Math.max(1, value));
+  const top = atLeastOne.indexOf(Math.max(...atLeastOne));
+  atLeastOne[top] -= atLeastOne.reduce((sum, value) => sum + value, 0) - total;
+
+  return matches.map((match, index) => ({ ...match, confidence: atLeastOne[index] }));
+}
+
+export function validateIdentification(raw: unknown): AIValidation<AIIdentification> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { value: null, issues: ["The reply must be a JSON object"] };
+  }
+
+  const result = raw as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (!Array.isArray(result.matches)) {
+    issues.push(`"matches" must be an array of exactly ${AI_MATCH_COUNT} objects`);
+  } else if (result.matches.length !== AI_MATCH_COUNT) {
+    issues.push(`"matches" has ${result.matches.length} entries but must have exactly ${AI_MATCH_COUNT}`);
+  }
+  if (!isNonEmptyString(result.detailedReasoning)) issues.push(`"detailedReasoning" must be a non-empty string`);
+  if (result.contentType != null && !CONTENT_TYPES.includes(result.contentType as ContentType)) {
+    issues.push(`"contentType" must be one of ${CONTENT_TYPES.map((type) => `"${type}"`).join(", ")}`);
+  }
+
+  const matches = Array.isArray(result.matches)
+    ? result.matches.map((match, index) => validateMatch(match, `Match ${index + 1}`, issues))
+    : [];
+  if (issues.length > 0) return { value: null, issues };
+
+  return {
+    value: {
+      matches: normalizeConfidences(matches as AIMatch[]),
+      detailedReasoning: result.detailedReasoning as string,
+      ...(result.contentType != null ? { contentType: result.contentType as ContentType } : {}),
+    },
+    issues: [],
+  };
+}
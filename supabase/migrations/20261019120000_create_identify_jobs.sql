@@ -0,0 +1,34 @@
+-- Background identification jobs created by the identify-movie edge function
+create table public.identify_jobs (
+  id uuid primary key default gen_random_uuid(),
+  request jsonb not null,
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed')),
+  stage text not null default 'queued',
+  completed_items integer,
+  total_items integer,
+  partial_result jsonb,
+  result jsonb,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index identify_jobs_created_at_idx on public.identify_jobs (created_at);
+
+-- Only the edge function (service role) reads and writes jobs; clients poll through it by job id
+alter table public.identify_jobs enable row level security;
+
+create or replace function public.set_identify_jobs_updated_at()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger identify_jobs_set_updated_at
+before update on public.identify_jobs
+for each row execute function public.set_identify_jobs_updated_at();
@@ -0,0 +1,4 @@
+-- Latest progress detail and best guess so far, for clients that resume a job by polling
+alter table public.identify_jobs
+  add column stage_message text,
+  add column top_candidate jsonb;
@@ -0,0 +1,19 @@
+-- Jobs only matter while a client may still resume them; the edge function deletes expired ones
+-- whenever it creates a new job
+create index identify_jobs_updated_at_idx on public.identify_jobs (updated_at);
+
+create or replace function public.delete_expired_identify_jobs(retention interval default interval '7 days')
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with deleted as (
+    delete from public.identify_jobs
+    where updated_at < now() - retention
+    returning 1
+  )
+  select count(*)::integer from deleted;
+$$;
+
+revoke execute on function public.delete_expired_identify_jobs(interval) from public, anon, authenticated;